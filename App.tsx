@@ -7,11 +7,13 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 // Contexts
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { OfflineProvider, useOffline } from './contexts/OfflineContext';
+import { SyncProvider } from './contexts/SyncContext';
 
 // Navigation
 import StackNavigator from './navigation/StackNavigator';
 
 // Components
+import RollbackNotice from './components/RollbackNotice';
 
 // App configuration
 import { APP_CONFIG } from './constants/Config';
@@ -59,6 +61,9 @@ const AppContent: React.FC = () => {
         <NavigationContainer>
           <StackNavigator />
         </NavigationContainer>
+
+        {/* Changes the server refused float above every screen */}
+        <RollbackNotice />
       </View>
     </SafeAreaProvider>
   );
@@ -69,7 +74,9 @@ const App: React.FC = () => {
   return (
     <AuthProvider>
       <OfflineProvider>
-        <AppWrapper />
+        <SyncProvider>
+          <AppWrapper />
+        </SyncProvider>
       </OfflineProvider>
     </AuthProvider>
   );
@@ -88,7 +88,10 @@ const CreateFolderModal: React.FC<CreateFolderModalProps> = ({
       const result = await createFolder(trimmedName);
       
       if (result.error) {
-        Alert.alert('Error', result.error.message || 'Failed to create folder. Please try again.');
+        Alert.alert(
+          result.error.category === 'duplicate' ? 'Name Taken' : 'Error',
+          result.error.message || 'Failed to create folder. Please try again.'
+        );
         return;
       }
 
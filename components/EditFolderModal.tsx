@@ -104,7 +104,10 @@ const EditFolderModal: React.FC<EditFolderModalProps> = ({
       const result = await updateFolder(folder.id, trimmedName);
       
       if (result.error) {
-        Alert.alert('Error', result.error.message || 'Failed to update folder. Please try again.');
+        Alert.alert(
+          result.error.category === 'duplicate' ? 'Name Taken' : 'Error',
+          result.error.message || 'Failed to update folder. Please try again.'
+        );
         return;
       }
 
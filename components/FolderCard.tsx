@@ -4,6 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { Folder } from '../constants/Config';
 import { useOffline } from '../contexts/OfflineContext';
 import { useSupabase } from '../hooks/useSupabase';
+import { formatRelativeTime } from '../utils/helpers';
 import EditFolderModal from './EditFolderModal';
 
 interface FolderCardProps {
@@ -11,6 +12,7 @@ interface FolderCardProps {
   onPress: (folder: Folder) => void;
   showMenuButton?: boolean;
   songCount?: number;
+  lastModified?: string | null; // When the folder or its songs last changed
   onFolderUpdate?: () => void; // Callback to refresh folder list after updates
 }
 
@@ -19,12 +21,18 @@ const FolderCard: React.FC<FolderCardProps> = ({
   onPress,
   showMenuButton = true,
   songCount = 0,
+  lastModified,
   onFolderUpdate,
 }) => {
-  const { settings } = useOffline();
+  const { settings, optimisticChanges } = useOffline();
   const { deleteFolder, updateFolder } = useSupabase();
   const [isEditModalVisible, setIsEditModalVisible] = useState(false);
 
+  // Created or renamed locally and still waiting for the server
+  const isPending = optimisticChanges.some(({ mutation }) =>
+    (mutation.type === 'createFolder' || mutation.type === 'updateFolder') && mutation.folderId === folder.id
+  );
+
   // Theme colors based on light/dark mode
   const colors = {
     background: settings.theme === 'light' ? '#ffffff' : '#1a202c',
@@ -83,10 +91,10 @@ const FolderCard: React.FC<FolderCardProps> = ({
           onPress: async () => {
             if (folder.id) {
               try {
+                // The folder disappears right away; if the server refuses it comes back with a notice
                 const result = await deleteFolder(folder.id);
-                if (result.error) {
-                  Alert.alert('Error', result.error.message || 'Failed to delete folder');
-                } else {
+                // A folder that no longer exists has been deleted already (e.g. on another device)
+                if (!result.error || result.error.category === 'not_found') {
                   // Success - trigger refresh
                   if (onFolderUpdate) {
                     onFolderUpdate();
@@ -111,6 +119,7 @@ const FolderCard: React.FC<FolderCardProps> = ({
           {
             backgroundColor: colors.background,
             borderColor: colors.border,
+            opacity: isPending ? 0.6 : 1,
           },
         ]}
         onPress={() => onPress(folder)}
@@ -145,6 +154,7 @@ const FolderCard: React.FC<FolderCardProps> = ({
               ]}
             >
               {songCount} {songCount === 1 ? 'song' : 'songs'}
+              {lastModified ? ` · Updated ${formatRelativeTime(new Date(lastModified))}` : ''}
             </Text>
           </View>
 
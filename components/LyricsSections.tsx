@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+import { useOffline } from '../contexts/OfflineContext';
+import { LyricsSection, parseLyricsSections } from '../utils/lyricsSections';
+import { lineHasChords, stripChords, toChordSegments, tokenizeChordPro } from '../utils/chordPro';
+
+interface LyricsSectionsProps {
+  lyrics: string;
+  fontSize: number;
+  showChords?: boolean; // Musicians view: ChordPro chords above the syllables they're played on
+}
+
+// Lyrics laid out section by section: each stanza under its label, the chorus set apart so
+// it's easy to find again while singing
+const LyricsSections: React.FC<LyricsSectionsProps> = ({ lyrics, fontSize, showChords = false }) => {
+  const { settings } = useOffline();
+  const sections = useMemo(() => parseLyricsSections(lyrics), [lyrics]);
+
+  // A single stanza needs no "Verse 1" over it
+  const showLabels = sections.length > 1;
+
+  // Theme colors
+  const colors = {
+    text: settings.theme === 'light' ? '#2d3748' : '#f7fafc',
+    subText: settings.theme === 'light' ? '#718096' : '#a0aec0',
+    accent: settings.theme === 'light' ? '#3182ce' : '#63b3ed',
+  };
+
+  // Each word is laid out under its chord so lines wrap between words like plain text; a
+  // chord with no words after it still takes its own space
+  const renderChordLine = (line: string, key: number, textStyle: StyleProp<TextStyle>) => (
+    <View key={key} style={styles.chordLine} accessible accessibilityLabel={stripChords(line)}>
+      {toChordSegments(tokenizeChordPro(line)).flatMap((segment, segmentIndex) => {
+        const words = segment.text.match(/\S*\s*/g)?.filter(word => word.length > 0) || [];
+        return (words.length > 0 ? words : ['']).map((word, wordIndex) => (
+          <View key={`${segmentIndex}-${wordIndex}`}>
+            <Text
+              style={[
+                styles.chord,
+                { color: colors.accent, fontSize: fontSize * 0.8, lineHeight: fontSize * 1.1 },
+              ]}
+            >
+              {wordIndex === 0 && segment.chord ? segment.chord : ' '}
+            </Text>
+            <Text style={textStyle}>{word}</Text>
+          </View>
+        ));
+      })}
+    </View>
+  );
+
+  const renderSection = (section: LyricsSection, index: number) => {
+    // Chord-only lines, such as an instrumental intro, are for the musicians
+    const lines = showChords ? section.lines : section.lines.filter(line => stripChords(line).trim());
+    if (lines.length === 0) return null;
+
+    const isChorus = section.type === 'chorus';
+    return (
+      <View
+        key={index}
+        style={[
+          styles.section,
+          { marginBottom: fontSize * 1.25 },
+          isChorus && [styles.chorus, { borderLeftColor: colors.accent, backgroundColor: colors.accent + '12' }],
+        ]}
+        accessibilityLabel={showLabels ? section.label : undefined}
+      >
+        {showLabels && (
+          <Text
+            style={[
+              styles.label,
+              { color: isChorus ? colors.accent : colors.subText, fontSize: Math.max(fontSize * 0.7, 11) },
+            ]}
+          >
+            {section.label}
+          </Text>
+        )}
+        {lines.map((line, lineIndex) => {
+          const textStyle = [
+            styles.line,
+            { color: colors.text, fontSize, lineHeight: fontSize * 1.6 },
+            isChorus && styles.chorusLine,
+          ];
+          return showChords && lineHasChords(line)
+            ? renderChordLine(line, lineIndex, textStyle)
+            : <Text key={lineIndex} style={textStyle}>{stripChords(line)}</Text>;
+        })}
+      </View>
+    );
+  };
+
+  return <View>{sections.map(renderSection)}</View>;
+};
+
+const styles = StyleSheet.create({
+  section: {
+    alignItems: 'center',
+  },
+  chorus: {
+    borderLeftWidth: 3,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  label: {
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
+  line: {
+    textAlign: 'center',
+  },
+  chordLine: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    alignItems: 'flex-end',
+  },
+  chord: {
+    fontWeight: '700',
+    paddingRight: 4,
+  },
+  chorusLine: {
+    fontStyle: 'italic',
+  },
+});
+
+export default LyricsSections;
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { supabaseClient } from '../constants/Config';
+import { SUPABASE_URL } from '../constants/Config';
+import { checkBasicConnectivity, checkSupabaseRest, checkSupabaseAuth } from '../utils/network';
 
 interface NetworkTestProps {
   onClose: () => void;
@@ -41,53 +42,19 @@ const NetworkTest: React.FC<NetworkTestProps> = ({ onClose, theme }) => {
     });
 
     // Test 1: Basic internet connectivity
-    try {
-      const response = await fetch('https://www.google.com', { 
-        method: 'HEAD',
-        mode: 'no-cors',
-        cache: 'no-cache',
-      });
-      setTestResults(prev => ({ ...prev, basic: 'success' }));
-    } catch (error) {
-      console.log('Basic connectivity test failed:', error);
-      setTestResults(prev => ({ ...prev, basic: 'failed' }));
-    }
+    const basicOk = await checkBasicConnectivity();
+    if (!basicOk) console.log('Basic connectivity test failed');
+    setTestResults(prev => ({ ...prev, basic: basicOk ? 'success' : 'failed' }));
 
     // Test 2: Supabase connectivity
-    try {
-      const response = await fetch(`${supabaseClient.supabaseUrl}/rest/v1/`, {
-        method: 'HEAD',
-        headers: {
-          'apikey': supabaseClient.supabaseKey,
-        },
-      });
-      if (response.ok) {
-        setTestResults(prev => ({ ...prev, supabase: 'success' }));
-      } else {
-        setTestResults(prev => ({ ...prev, supabase: 'failed' }));
-      }
-    } catch (error) {
-      console.log('Supabase connectivity test failed:', error);
-      setTestResults(prev => ({ ...prev, supabase: 'failed' }));
-    }
+    const supabaseOk = await checkSupabaseRest();
+    if (!supabaseOk) console.log('Supabase connectivity test failed');
+    setTestResults(prev => ({ ...prev, supabase: supabaseOk ? 'success' : 'failed' }));
 
     // Test 3: Auth endpoint
-    try {
-      const response = await fetch(`${supabaseClient.supabaseUrl}/auth/v1/health`, {
-        method: 'GET',
-        headers: {
-          'apikey': supabaseClient.supabaseKey,
-        },
-      });
-      if (response.ok) {
-        setTestResults(prev => ({ ...prev, auth: 'success' }));
-      } else {
-        setTestResults(prev => ({ ...prev, auth: 'failed' }));
-      }
-    } catch (error) {
-      console.log('Auth endpoint test failed:', error);
-      setTestResults(prev => ({ ...prev, auth: 'failed' }));
-    }
+    const authOk = await checkSupabaseAuth();
+    if (!authOk) console.log('Auth endpoint test failed');
+    setTestResults(prev => ({ ...prev, auth: authOk ? 'success' : 'failed' }));
 
     setIsRunning(false);
   };
@@ -121,7 +88,7 @@ Network Test Results:
 • Supabase Server: ${getStatusText(testResults.supabase)}
 • Auth Endpoint: ${getStatusText(testResults.auth)}
 
-Supabase URL: ${supabaseClient.supabaseUrl}
+Supabase URL: ${SUPABASE_URL}
 
 If you're seeing network failures:
 1. Check your internet connection
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useOffline } from '../contexts/OfflineContext';
+
+const OfflineBanner: React.FC = () => {
+  const { connectivity, connectivityChangedAt, checkConnectivity, pendingMutations, settings } = useOffline();
+  const [isChecking, setIsChecking] = useState(false);
+
+  if (connectivity === 'online') {
+    return null;
+  }
+
+  const isOffline = connectivity === 'offline';
+
+  // Theme colors
+  const colors = {
+    background: isOffline
+      ? (settings.theme === 'light' ? '#fefcbf' : '#744210')
+      : (settings.theme === 'light' ? '#ebf8ff' : '#2a4365'),
+    text: isOffline
+      ? (settings.theme === 'light' ? '#744210' : '#fefcbf')
+      : (settings.theme === 'light' ? '#2a4365' : '#ebf8ff'),
+  };
+
+  const since = connectivityChangedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const pendingText = pendingMutations.length > 0
+    ? ` • ${pendingMutations.length} ${pendingMutations.length === 1 ? 'change' : 'changes'} waiting`
+    : '';
+
+  const handleRetry = async () => {
+    setIsChecking(true);
+    try {
+      await checkConnectivity();
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <Ionicons
+        name={isOffline ? 'cloud-offline-outline' : 'cellular-outline'}
+        size={18}
+        color={colors.text}
+      />
+      <Text style={[styles.text, { color: colors.text }]} numberOfLines={2}>
+        {isOffline
+          ? `Offline since ${since} - showing saved songs${pendingText}`
+          : `Slow connection since ${since} - some actions may take longer${pendingText}`}
+      </Text>
+      <TouchableOpacity onPress={handleRetry} disabled={isChecking} style={styles.retryButton}>
+        {isChecking ? (
+          <ActivityIndicator size="small" color={colors.text} />
+        ) : (
+          <Text style={[styles.retryText, { color: colors.text }]}>Retry</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+  retryButton: {
+    marginLeft: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    minWidth: 44,
+    alignItems: 'center',
+  },
+  retryText: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+});
+
+export default OfflineBanner;
@@ -0,0 +1,79 @@
+import React, { useEffect, useRef } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useOffline } from '../contexts/OfflineContext';
+import { APP_CONFIG } from '../constants/Config';
+
+// Tells the user when a change they saw applied was refused by the server and undone
+const RollbackNotice: React.FC = () => {
+  const { rollbackNotice, dismissRollbackNotice, settings } = useOffline();
+
+  // dismissRollbackNotice changes identity with every render; always call the latest
+  const dismissRef = useRef(dismissRollbackNotice);
+  dismissRef.current = dismissRollbackNotice;
+
+  // Hide on its own after a while; a newer notice restarts the timer
+  useEffect(() => {
+    if (!rollbackNotice) return;
+    const timer = setTimeout(() => dismissRef.current(), APP_CONFIG.rollbackNoticeDuration);
+    return () => clearTimeout(timer);
+  }, [rollbackNotice]);
+
+  if (!rollbackNotice) {
+    return null;
+  }
+
+  // Theme colors
+  const colors = {
+    background: settings.theme === 'light' ? '#fed7d7' : '#742a2a',
+    text: settings.theme === 'light' ? '#742a2a' : '#fed7d7',
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]} accessibilityLiveRegion="polite">
+      <Ionicons name="arrow-undo-outline" size={18} color={colors.text} />
+      <Text style={[styles.text, { color: colors.text }]} numberOfLines={3}>
+        {rollbackNotice.message}
+      </Text>
+      <TouchableOpacity
+        onPress={dismissRollbackNotice}
+        style={styles.dismissButton}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityLabel="Dismiss"
+      >
+        <Ionicons name="close" size={18} color={colors.text} />
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 96, // Clear of the tab bar and connectivity banner
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+  dismissButton: {
+    marginLeft: 8,
+    padding: 4,
+  },
+});
+
+export default RollbackNotice;
@@ -1,24 +1,40 @@
-import React, { useState, useCallback, useRef } from 'react';
-import { View, TextInput, StyleSheet, Platform, TouchableOpacity } from 'react-native';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
+import { View, Text, TextInput, StyleSheet, Platform, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { APP_CONFIG, SongSummary } from '../constants/Config';
 import { useOffline } from '../contexts/OfflineContext';
+import { useSearchHistory } from '../hooks/useSearchHistory';
+import { suggestSongs } from '../utils/songSearch';
 
 interface SearchBarProps {
   placeholder?: string;
   onSearch: (query: string) => void;
   value?: string;
   autoFocus?: boolean;
+  songs?: SongSummary[]; // Songs to suggest while typing
+  onSelectSong?: (song: SongSummary) => void; // A suggested song was chosen
 }
 
+// Wait before hiding suggestions on blur, so a tap on one still lands (web blurs before the click)
+const SUGGESTIONS_HIDE_DELAY = 150;
+
+// Recent searches that start with what's been typed, shown above the song suggestions
+const MATCHING_HISTORY_LIMIT = 3;
+
 const SearchBar: React.FC<SearchBarProps> = ({
   placeholder = 'Search songs...',
   onSearch,
   value = '',
   autoFocus = false,
+  songs,
+  onSelectSong,
 }) => {
   const { settings } = useOffline();
+  const { history, addQuery, removeQuery, clearHistory } = useSearchHistory();
   const [internalQuery, setInternalQuery] = useState(value);
+  const [isFocused, setIsFocused] = useState(false);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const blurTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const inputRef = useRef<TextInput>(null);
 
   // Theme colors based on light/dark mode
@@ -28,8 +44,28 @@ const SearchBar: React.FC<SearchBarProps> = ({
     text: settings.theme === 'light' ? '#2d3748' : '#f7fafc',
     placeholder: settings.theme === 'light' ? '#a0aec0' : '#718096',
     icon: settings.theme === 'light' ? '#718096' : '#a0aec0',
+    menu: settings.theme === 'light' ? '#ffffff' : '#2d3748',
+    accent: settings.theme === 'light' ? '#3182ce' : '#63b3ed',
   };
 
+  const trimmedQuery = internalQuery.trim();
+
+  // Typing narrows recent searches and suggests songs; an empty field shows every recent search
+  const matchingHistory = useMemo(() => {
+    if (!trimmedQuery) return history;
+    const lowerQuery = trimmedQuery.toLowerCase();
+    return history
+      .filter(entry => entry.toLowerCase().startsWith(lowerQuery) && entry.toLowerCase() !== lowerQuery)
+      .slice(0, MATCHING_HISTORY_LIMIT);
+  }, [history, trimmedQuery]);
+
+  const suggestedSongs = useMemo(
+    () => (songs && onSelectSong ? suggestSongs(songs, trimmedQuery, APP_CONFIG.searchSuggestionLimit) : []),
+    [songs, onSelectSong, trimmedQuery]
+  );
+
+  const showSuggestions = isFocused && (matchingHistory.length > 0 || suggestedSongs.length > 0);
+
   // Debounced search function
   const debouncedSearch = useCallback((searchQuery: string) => {
     if (timeoutRef.current) {
@@ -53,6 +89,41 @@ const SearchBar: React.FC<SearchBarProps> = ({
     }
   }, [value]);
 
+  React.useEffect(() => () => {
+    if (blurTimeoutRef.current) {
+      clearTimeout(blurTimeoutRef.current);
+    }
+  }, []);
+
+  const handleFocus = () => {
+    if (blurTimeoutRef.current) {
+      clearTimeout(blurTimeoutRef.current);
+    }
+    setIsFocused(true);
+  };
+
+  const handleBlur = () => {
+    blurTimeoutRef.current = setTimeout(() => setIsFocused(false), SUGGESTIONS_HIDE_DELAY);
+  };
+
+  // Search for a recent query straight away
+  const handleSelectHistory = (query: string) => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+    }
+    setInternalQuery(query);
+    onSearch(query);
+    addQuery(query);
+  };
+
+  // Open a suggested song, remembering what was typed to find it
+  const handleSelectSong = (song: SongSummary) => {
+    addQuery(trimmedQuery);
+    inputRef.current?.blur();
+    setIsFocused(false);
+    onSelectSong?.(song);
+  };
+
   const handleClear = () => {
     setInternalQuery('');
     if (timeoutRef.current) {
@@ -66,44 +137,99 @@ const SearchBar: React.FC<SearchBarProps> = ({
       clearTimeout(timeoutRef.current);
     }
     onSearch(internalQuery);
+    addQuery(internalQuery);
   };
 
   return (
-    <View style={[styles.container, { backgroundColor: colors.background, borderColor: colors.border }]}>
-      <Ionicons 
-        name="search" 
-        size={20} 
-        color={colors.icon} 
-        style={styles.searchIcon} 
-      />
-      
-      <TextInput
-        ref={inputRef}
-        style={[
-          styles.input,
-          {
-            color: colors.text,
-            fontSize: settings.fontSize - 2,
-          },
-        ]}
-        placeholder={placeholder}
-        placeholderTextColor={colors.placeholder}
-        value={internalQuery}
-        onChangeText={handleTextChange}
-        autoFocus={autoFocus}
-        autoCorrect={false}
-        autoCapitalize="none"
-        returnKeyType="search"
-        onSubmitEditing={handleSubmit}
-        blurOnSubmit={false}
-        clearButtonMode="never"
-        enablesReturnKeyAutomatically={false}
-      />
-      
-      {internalQuery.length > 0 && (
-        <TouchableOpacity onPress={handleClear} style={styles.clearButton}>
-          <Ionicons name="close-circle" size={20} color={colors.icon} />
-        </TouchableOpacity>
+    <View>
+      <View style={[styles.container, { backgroundColor: colors.background, borderColor: colors.border }]}>
+        <Ionicons 
+          name="search" 
+          size={20} 
+          color={colors.icon} 
+          style={styles.searchIcon} 
+        />
+        
+        <TextInput
+          ref={inputRef}
+          style={[
+            styles.input,
+            {
+              color: colors.text,
+              fontSize: settings.fontSize - 2,
+            },
+          ]}
+          placeholder={placeholder}
+          placeholderTextColor={colors.placeholder}
+          value={internalQuery}
+          onChangeText={handleTextChange}
+          autoFocus={autoFocus}
+          autoCorrect={false}
+          autoCapitalize="none"
+          returnKeyType="search"
+          onSubmitEditing={handleSubmit}
+          onFocus={handleFocus}
+          onBlur={handleBlur}
+          blurOnSubmit={false}
+          clearButtonMode="never"
+          enablesReturnKeyAutomatically={false}
+        />
+        
+        {internalQuery.length > 0 && (
+          <TouchableOpacity onPress={handleClear} style={styles.clearButton}>
+            <Ionicons name="close-circle" size={20} color={colors.icon} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {showSuggestions && (
+        <View style={[styles.suggestions, { backgroundColor: colors.menu, borderColor: colors.border }]}>
+          {!trimmedQuery && (
+            <View style={styles.suggestionsHeader}>
+              <Text style={[styles.suggestionsTitle, { color: colors.icon }]}>Recent searches</Text>
+              <TouchableOpacity onPress={clearHistory} accessibilityLabel="Clear recent searches">
+                <Text style={[styles.clearHistoryText, { color: colors.accent }]}>Clear</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {matchingHistory.map(entry => (
+            <View key={`history_${entry}`} style={styles.suggestionRow}>
+              <TouchableOpacity
+                style={styles.suggestionButton}
+                onPress={() => handleSelectHistory(entry)}
+                accessibilityLabel={`Search for ${entry}`}
+              >
+                <Ionicons name="time-outline" size={18} color={colors.icon} style={styles.suggestionIcon} />
+                <Text style={[styles.suggestionText, { color: colors.text }]} numberOfLines={1}>
+                  {entry}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => removeQuery(entry)}
+                style={styles.removeButton}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                accessibilityLabel={`Remove ${entry} from recent searches`}
+              >
+                <Ionicons name="close" size={16} color={colors.icon} />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          {suggestedSongs.map(song => (
+            <TouchableOpacity
+              key={`song_${song.id}`}
+              style={[styles.suggestionRow, styles.suggestionButton]}
+              onPress={() => handleSelectSong(song)}
+              accessibilityLabel={`Open ${song.song_number}, ${song.title}`}
+            >
+              <Text style={[styles.suggestionNumber, { color: colors.accent }]}>{song.song_number}</Text>
+              <Text style={[styles.suggestionText, { color: colors.text }]} numberOfLines={1}>
+                {song.title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
       )}
     </View>
   );
@@ -150,6 +276,57 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     padding: 4,
   },
+  suggestions: {
+    borderWidth: 1,
+    borderRadius: 12,
+    marginHorizontal: Platform.OS === 'web' ? 16 : 8,
+    marginBottom: 8,
+    paddingVertical: 4,
+    overflow: 'hidden',
+  },
+  suggestionsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  suggestionsTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  clearHistoryText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  suggestionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  suggestionIcon: {
+    marginRight: 12,
+  },
+  suggestionNumber: {
+    minWidth: 40,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  suggestionText: {
+    flex: 1,
+    fontSize: 15,
+  },
+  removeButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
 });
 
 export default SearchBar;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import { useOffline } from '../contexts/OfflineContext';
+
+interface SearchSuggestionProps {
+  suggestion: string;
+  hasResults: boolean; // Close matches are already listed below
+  onPress: (suggestion: string) => void;
+}
+
+// "Did you mean ..." under a search that matched nothing exactly
+const SearchSuggestion: React.FC<SearchSuggestionProps> = ({ suggestion, hasResults, onPress }) => {
+  const { settings } = useOffline();
+
+  // Theme colors
+  const colors = {
+    text: settings.theme === 'light' ? '#718096' : '#a0aec0',
+    link: settings.theme === 'light' ? '#3182ce' : '#63b3ed',
+  };
+
+  return (
+    <TouchableOpacity
+      onPress={() => onPress(suggestion)}
+      style={styles.container}
+      accessibilityRole="button"
+      accessibilityLabel={`Search for ${suggestion} instead`}
+    >
+      <Text style={[styles.text, { color: colors.text }]}>
+        {hasResults ? 'No exact matches. ' : ''}Did you mean{' '}
+        <Text style={[styles.suggestion, { color: colors.link }]}>{suggestion}</Text>?
+      </Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: Platform.OS === 'web' ? 32 : 24,
+    marginBottom: 12,
+  },
+  text: {
+    fontSize: 14,
+  },
+  suggestion: {
+    fontWeight: '600',
+    textDecorationLine: 'underline',
+  },
+});
+
+export default SearchSuggestion;
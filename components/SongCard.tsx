@@ -1,15 +1,18 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { Song } from '../constants/Config';
+import { SongSummary } from '../constants/Config';
 import { useOffline } from '../contexts/OfflineContext';
 import { useSupabase } from '../hooks/useSupabase';
+import { getHighlightSegments } from '../utils/songSearch';
 
 interface SongCardProps {
-  song: Song;
-  onPress: (song: Song) => void;
+  song: SongSummary;
+  onPress: (song: SongSummary) => void;
   showFavouriteButton?: boolean;
   showNumber?: boolean;
+  highlightQuery?: string; // Search words to highlight in the title and preview line
+  matchedLine?: string | null; // Lyric line the search matched, shown instead of the first line
 }
 
 const SongCard: React.FC<SongCardProps> = ({
@@ -17,11 +20,15 @@ const SongCard: React.FC<SongCardProps> = ({
   onPress,
   showFavouriteButton = true,
   showNumber = true,
+  highlightQuery,
+  matchedLine,
 }) => {
   const { settings } = useOffline();
-  const { isFavourite, addFavourite, removeFavourite } = useSupabase();
+  const { isFavourite, isFavouritePending, addFavourite, removeFavourite } = useSupabase();
   
+  // The heart flips straight away; further taps wait until the server has the last one
   const isCurrentlyFavourite = isFavourite(song.id);
+  const isTogglePending = isFavouritePending(song.id);
 
   // Theme colors based on light/dark mode
   const colors = {
@@ -31,9 +38,28 @@ const SongCard: React.FC<SongCardProps> = ({
     secondaryText: settings.theme === 'light' ? '#718096' : '#a0aec0',
     accent: settings.theme === 'light' ? '#3182ce' : '#63b3ed',
     heart: isCurrentlyFavourite ? '#e53e3e' : (settings.theme === 'light' ? '#cbd5e0' : '#4a5568'),
+    highlight: settings.theme === 'light' ? '#fefcbf' : '#744210',
   };
 
+  const previewLine = matchedLine || song.first_line;
+
+  // Search words stand out in bold on a highlighter background
+  const renderHighlighted = (text: string) =>
+    highlightQuery
+      ? getHighlightSegments(text, highlightQuery).map((segment, index) =>
+          segment.highlight ? (
+            <Text key={index} style={[styles.highlight, { backgroundColor: colors.highlight }]}>
+              {segment.text}
+            </Text>
+          ) : (
+            segment.text
+          )
+        )
+      : text;
+
   const handleFavouriteToggle = async () => {
+    if (isTogglePending) return;
+
     try {
       if (isCurrentlyFavourite) {
         await removeFavourite(song.id);
@@ -79,8 +105,22 @@ const SongCard: React.FC<SongCardProps> = ({
               ]}
               numberOfLines={3} // Increased to allow more text
             >
-              {song.title}
+              {renderHighlighted(song.title)}
             </Text>
+            {!!previewLine && (
+              <Text
+                style={[
+                  styles.preview,
+                  {
+                    color: colors.secondaryText,
+                    fontSize: Math.max((settings?.fontSize || 16) - 3, 11),
+                  },
+                ]}
+                numberOfLines={1}
+              >
+                {renderHighlighted(previewLine)}
+              </Text>
+            )}
           </View>
         </View>
 
@@ -88,6 +128,7 @@ const SongCard: React.FC<SongCardProps> = ({
           <TouchableOpacity
             style={styles.favouriteButton}
             onPress={handleFavouriteToggle}
+            disabled={isTogglePending}
             hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
           >
             <Ionicons
@@ -161,6 +202,9 @@ const styles = StyleSheet.create({
     lineHeight: 18,
     opacity: 0.8,
   },
+  highlight: {
+    fontWeight: '700',
+  },
   favouriteButton: {
     padding: 6, // Reduced padding
     marginLeft: 4, // Reduced margin for more title space
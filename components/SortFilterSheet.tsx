@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, StyleSheet, Platform, Switch } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ListFilters } from '../constants/Config';
+import { useOffline } from '../contexts/OfflineContext';
+import { DEFAULT_SORT_ORDER, describeListFilters } from '../utils/songSort';
+
+interface SortFilterSheetProps {
+  filters: ListFilters;
+  onChange: (filters: ListFilters) => void;
+  recentLabel: string; // What "recent" means for this list, e.g. "Recently viewed"
+  showFavouritesFilter?: boolean;
+  isSearching?: boolean; // Search results are listed best match first
+}
+
+// The list's current order with a button opening a sheet to change its sort and filter
+const SortFilterSheet: React.FC<SortFilterSheetProps> = ({
+  filters,
+  onChange,
+  recentLabel,
+  showFavouritesFilter = false,
+  isSearching = false,
+}) => {
+  const { settings } = useOffline();
+  const [visible, setVisible] = useState(false);
+
+  // Theme colors
+  const colors = {
+    overlay: settings.theme === 'light' ? 'rgba(0, 0, 0, 0.5)' : 'rgba(0, 0, 0, 0.7)',
+    cardBackground: settings.theme === 'light' ? '#ffffff' : '#2d3748',
+    text: settings.theme === 'light' ? '#2d3748' : '#f7fafc',
+    subText: settings.theme === 'light' ? '#718096' : '#a0aec0',
+    accent: settings.theme === 'light' ? '#3182ce' : '#63b3ed',
+    border: settings.theme === 'light' ? '#e2e8f0' : '#4a5568',
+  };
+
+  const sortOptions: { value: ListFilters['sortBy']; label: string }[] = [
+    { value: 'number', label: 'Number' },
+    { value: 'title', label: 'Title' },
+    { value: 'recent', label: recentLabel },
+  ];
+
+  const orderOptions: { value: ListFilters['sortOrder']; label: string }[] = [
+    { value: 'asc', label: 'Ascending' },
+    { value: 'desc', label: 'Descending' },
+  ];
+
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.trigger}
+        onPress={() => setVisible(true)}
+        accessibilityRole="button"
+        accessibilityLabel="Sort and filter"
+      >
+        <Ionicons name="swap-vertical" size={16} color={colors.subText} />
+        <Text style={[styles.triggerText, { color: colors.subText }]} numberOfLines={1}>
+          {isSearching ? 'Best matches first' : describeListFilters(filters, recentLabel)}
+        </Text>
+        <Ionicons name="options-outline" size={18} color={colors.accent} />
+      </TouchableOpacity>
+
+      <Modal
+        visible={visible}
+        transparent
+        animationType="slide"
+        statusBarTranslucent
+        onRequestClose={() => setVisible(false)}
+      >
+        <TouchableOpacity
+          style={[styles.overlay, { backgroundColor: colors.overlay }]}
+          activeOpacity={1}
+          onPress={() => setVisible(false)}
+        >
+          <TouchableOpacity
+            style={[styles.sheet, { backgroundColor: colors.cardBackground }]}
+            activeOpacity={1}
+            onPress={() => {}} // Prevent closing when tapping inside the sheet
+          >
+            <Text style={[styles.title, { color: colors.text }]}>Sort & filter</Text>
+
+            <Text style={[styles.sectionTitle, { color: colors.subText }]}>Sort by</Text>
+            {sortOptions.map(option => {
+              const selected = filters.sortBy === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={styles.optionRow}
+                  onPress={() => onChange({ ...filters, sortBy: option.value, sortOrder: DEFAULT_SORT_ORDER[option.value] })}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected }}
+                >
+                  <Ionicons
+                    name={selected ? 'radio-button-on' : 'radio-button-off'}
+                    size={20}
+                    color={selected ? colors.accent : colors.subText}
+                  />
+                  <Text style={[styles.optionText, { color: colors.text }]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+
+            <Text style={[styles.sectionTitle, { color: colors.subText }]}>Order</Text>
+            <View style={styles.orderRow}>
+              {orderOptions.map(option => {
+                const selected = filters.sortOrder === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.orderButton,
+                      { borderColor: selected ? colors.accent : colors.border },
+                      selected && { backgroundColor: colors.accent + '20' },
+                    ]}
+                    onPress={() => onChange({ ...filters, sortOrder: option.value })}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected }}
+                  >
+                    <Text style={[styles.orderText, { color: selected ? colors.accent : colors.text }]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {showFavouritesFilter && (
+              <>
+                <Text style={[styles.sectionTitle, { color: colors.subText }]}>Filter</Text>
+                <View style={styles.optionRow}>
+                  <Text style={[styles.optionText, styles.switchLabel, { color: colors.text }]}>Favourites only</Text>
+                  <Switch
+                    value={filters.favouritesOnly}
+                    onValueChange={(favouritesOnly) => onChange({ ...filters, favouritesOnly })}
+                    trackColor={{ false: colors.border, true: colors.accent }}
+                  />
+                </View>
+              </>
+            )}
+
+            {isSearching && (
+              <Text style={[styles.note, { color: colors.subText }]}>
+                Search results are listed best match first; this order applies when the search is cleared.
+              </Text>
+            )}
+
+            <TouchableOpacity
+              style={[styles.doneButton, { backgroundColor: colors.accent }]}
+              onPress={() => setVisible(false)}
+            >
+              <Text style={styles.doneText}>Done</Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  trigger: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: Platform.OS === 'web' ? 32 : 24,
+    marginBottom: 12,
+  },
+  triggerText: {
+    flex: 1,
+    fontSize: 14,
+    marginHorizontal: 8,
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+  },
+  sheet: {
+    width: '100%',
+    maxWidth: 500,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    paddingBottom: Platform.OS === 'ios' ? 40 : 24,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  optionText: {
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  switchLabel: {
+    flex: 1,
+    marginLeft: 0,
+  },
+  orderRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  orderButton: {
+    flex: 1,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+  },
+  orderText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  note: {
+    fontSize: 13,
+    marginTop: 16,
+    lineHeight: 18,
+  },
+  doneButton: {
+    alignItems: 'center',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 24,
+  },
+  doneText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default SortFilterSheet;
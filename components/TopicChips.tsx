@@ -0,0 +1,96 @@
+import React from 'react';
+import { ScrollView, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Topic } from '../constants/Config';
+import { useOffline } from '../contexts/OfflineContext';
+
+interface TopicChipsProps {
+  topics: Topic[]; // In topical index order
+  selectedTopicId: number | null;
+  onSelect: (topicId: number | null) => void;
+  onBrowse: () => void; // Open the topical index
+}
+
+// Scrolling row of topics narrowing a song list to one topic at a time
+const TopicChips: React.FC<TopicChipsProps> = ({ topics, selectedTopicId, onSelect, onBrowse }) => {
+  const { settings } = useOffline();
+
+  // Theme colors
+  const colors = {
+    chip: settings.theme === 'light' ? '#ffffff' : '#2d3748',
+    text: settings.theme === 'light' ? '#2d3748' : '#f7fafc',
+    accent: settings.theme === 'light' ? '#3182ce' : '#63b3ed',
+    border: settings.theme === 'light' ? '#e2e8f0' : '#4a5568',
+  };
+
+  const renderChip = (topicId: number | null, label: string) => {
+    const selected = selectedTopicId === topicId;
+    return (
+      <TouchableOpacity
+        key={topicId ?? 'all'}
+        style={[
+          styles.chip,
+          { backgroundColor: selected ? colors.accent : colors.chip, borderColor: selected ? colors.accent : colors.border },
+        ]}
+        // Tapping the selected topic again shows every song
+        onPress={() => onSelect(selected ? null : topicId)}
+        accessibilityRole="button"
+        accessibilityState={{ selected }}
+      >
+        <Text style={[styles.chipText, { color: selected ? 'white' : colors.text }]}>{label}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      {renderChip(null, 'All')}
+      {topics.map(topic => renderChip(topic.id, topic.name))}
+      <TouchableOpacity
+        style={[styles.chip, styles.browseChip, { borderColor: colors.border }]}
+        onPress={onBrowse}
+        accessibilityRole="button"
+        accessibilityLabel="Browse songs by topic"
+      >
+        <Ionicons name="list-outline" size={16} color={colors.accent} />
+        <Text style={[styles.chipText, styles.browseText, { color: colors.accent }]}>Topical index</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  content: {
+    paddingHorizontal: Platform.OS === 'web' ? 32 : 24,
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  browseChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  browseText: {
+    marginLeft: 4,
+  },
+});
+
+export default TopicChips;
@@ -8,6 +8,9 @@ interface WebToolbarProps {
   onFavoriteToggle: () => void;
   onAddToFolder: () => void;
   onBackPress?: () => void;
+  onNumberPad?: () => void;
+  showChords?: boolean;
+  onToggleChords?: () => void; // Only passed for songs with chords
   songTitle?: string;
 }
 
@@ -16,6 +19,9 @@ const WebToolbar: React.FC<WebToolbarProps> = ({
   onFavoriteToggle,
   onAddToFolder,
   onBackPress,
+  onNumberPad,
+  showChords = false,
+  onToggleChords,
   songTitle = '',
 }) => {
   const { settings } = useOffline();
@@ -111,6 +117,23 @@ const WebToolbar: React.FC<WebToolbarProps> = ({
       </View>
 
       <View style={styles.toolbarActions}>
+        {onToggleChords && (
+          <ToolbarButton
+            icon={showChords ? 'musical-notes' : 'musical-notes-outline'}
+            onPress={onToggleChords}
+            active={showChords}
+            label={showChords ? 'Musicians' : 'Singers'}
+          />
+        )}
+
+        {onNumberPad && (
+          <ToolbarButton
+            icon="keypad-outline"
+            onPress={onNumberPad}
+            label="Number"
+          />
+        )}
+
         <ToolbarButton
           icon={isFavourite ? 'heart' : 'heart-outline'}
           onPress={onFavoriteToggle}
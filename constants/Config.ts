@@ -7,6 +7,11 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 export const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL || 'YOUR_SUPABASE_URL';
 export const SUPABASE_ANON_KEY = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || 'YOUR_SUPABASE_ANON_KEY';
 
+// Where app data comes from: 'supabase' (default) or 'local' seed data stored on the device,
+// which runs the whole app without a Supabase project (demos, automated tests)
+export const DATA_SOURCE: 'supabase' | 'local' =
+  process.env.EXPO_PUBLIC_DATA_SOURCE === 'local' ? 'local' : 'supabase';
+
 // Create Supabase client with AsyncStorage for React Native
 export const supabaseClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
   auth: {
@@ -22,16 +27,64 @@ export const APP_CONFIG = {
   name: 'SingHisWord',
   version: '1.0.0',
   cacheTimeout: 24 * 60 * 60 * 1000, // 24 hours in milliseconds
+  connectivityCheckInterval: 30 * 1000, // 30 seconds between reachability probes
+  lyricsCacheSize: 200, // Lyrics kept on disk for songs that haven't been opened
+  lyricsMemoryCacheSize: 30, // Lyrics kept in memory for quick reopening
+  queryStaleTime: 5 * 60 * 1000, // 5 minutes before screens revalidate data in the background
+  autoSyncMinInterval: 5 * 60 * 1000, // Foregrounding or reconnecting won't resync more often than this
+  syncRetryBaseDelay: 30 * 1000, // First retry after a failed background sync
+  syncRetryMaxDelay: 30 * 60 * 1000, // Longest wait between background sync retries
+  readRetryAttempts: 2, // Extra attempts for reads that fail with a retryable error
+  readRetryBaseDelay: 500, // First read retry after half a second, doubling after that
+  rollbackNoticeDuration: 6000, // How long the notice for an undone change stays up
+  songbook: 'SingHisWord', // Songbook the song numbers belong to; backups reference songs by number within it
+  searchPageSize: 50, // Server search results fetched at a time
+  searchHistorySize: 12, // Recent searches remembered per account
+  searchSuggestionLimit: 5, // Songs suggested while typing in a search bar
+  recentlyViewedSize: 200, // Opened songs remembered for sorting by recently viewed
 };
 
 // TypeScript interfaces
-export interface Song {
+// Lightweight song index entry used by lists; lyrics are loaded per song on demand
+export interface SongSummary {
   id: number;
   song_number: number;
   title: string;
-  lyrics: string;
+  first_line: string;
   created_at?: string;
   updated_at?: string;
+  lyrics_updated_at?: string; // When the lyrics last changed; updated_at also covers retagging
+  topic_ids?: number[]; // Topics the song is listed under (song_topics)
+  scripture_refs?: ScriptureReference[]; // Bible passages the song is based on
+}
+
+export interface Song extends SongSummary {
+  lyrics: string;
+}
+
+// Columns selected for the song index; song_topics rows are embedded and flattened to topic_ids
+export const SONG_INDEX_COLUMNS = 'id, song_number, title, first_line, created_at, updated_at, lyrics_updated_at, scripture_refs, song_topics(topic_id)';
+
+// Normalized Bible passage, e.g. Psalm 23:1-4 (see utils/scripture.ts)
+export interface ScriptureReference {
+  book: string; // Canonical book name, e.g. "1 Corinthians"
+  chapter: number;
+  verse_start: number | null; // null: from the start of the chapter
+  chapter_end: number; // Same as chapter unless the passage runs into later chapters
+  verse_end: number | null; // null: to the end of chapter_end
+}
+
+// Curated subject a song can be listed under, e.g. Advent or Communion (database/topics.sql)
+export interface Topic {
+  id: number;
+  name: string;
+  sort_order: number; // Position in the topical index
+}
+
+// One page of server search results, best match first
+export interface SongSearchPage {
+  songs: SongSummary[];
+  total: number; // Matches across every page
 }
 
 export interface Favourite {
@@ -39,7 +92,7 @@ export interface Favourite {
   user_id: string;
   song_id: number;
   created_at?: string;
-  song?: Song; // Optional populated song data
+  song?: SongSummary; // Optional populated song data
 }
 
 export interface Folder {
@@ -55,7 +108,20 @@ export interface SongFolder {
   song_id: number;
   folder_id: number;
   created_at?: string;
-  song?: Song; // Optional populated song data
+  song?: SongSummary; // Optional populated song data
+}
+
+// Song count and latest change for one folder (the folder_summaries view)
+export interface FolderSummary {
+  folder_id: number;
+  song_count: number;
+  last_modified: string | null;
+}
+
+// Marker left behind when a song is deleted on the server
+export interface SongTombstone {
+  song_id: number;
+  deleted_at: string;
 }
 
 // User interface (auth-based user)
@@ -76,16 +142,27 @@ export interface DeviceInfo {
 
 export type ThemeMode = 'light' | 'dark';
 
+// Singers see just the words; musicians also see chords above them
+export type LyricsView = 'singers' | 'musicians';
+
+// 'degraded' means Supabase is reachable but slow or only partly responding
+export type ConnectivityStatus = 'online' | 'offline' | 'degraded';
+
 export interface AppSettings {
   theme: ThemeMode;
   fontSize: number;
   autoSync: boolean;
+  listFilters: { [list in SongListId]?: ListFilters }; // Sort and filter chosen for each list
+  lyricsView: LyricsView;
 }
 
 // Navigation types
 export type RootStackParamList = {
   Main: undefined;
-  Lyrics: { song: Song };
+  Lyrics: { song: SongSummary };
+  NumberPad: undefined;
+  Topics: undefined;
+  ScriptureIndex: undefined;
   FolderDetail: { folder: Folder };
   Settings: undefined;
   Login: undefined;
@@ -104,22 +181,142 @@ export type AuthStackParamList = {
 };
 
 // API response types
+// What went wrong, independent of where the error came from (see utils/errors.ts)
+export type AppErrorCategory =
+  | 'network' // Request never reached the server
+  | 'auth' // Not signed in or the session expired
+  | 'permission' // Row level security or missing privileges
+  | 'duplicate' // Unique constraint, e.g. the song is already in the folder
+  | 'not_found' // Row is gone, e.g. deleted on another device
+  | 'validation' // Server rejected the values sent
+  | 'server' // Database or API trouble that may clear up on its own
+  | 'cancelled' // Request was superseded or aborted
+  | 'unknown';
+
+export interface AppError {
+  category: AppErrorCategory;
+  message: string; // Safe to show to the user
+  retryable: boolean; // Trying the same request again later may succeed
+  code?: string; // Postgres/PostgREST error code when there is one
+  details?: string; // Underlying error message, for logs
+}
+
 export interface ApiResponse<T> {
   data: T | null;
-  error: string | null;
+  error: AppError | null;
+}
+
+// Error returned by a repository; code is the Postgres/PostgREST error code when there is one
+export interface RepositoryError {
+  message: string;
+  code?: string;
+}
+
+export interface RepositoryResult<T> {
+  data: T | null;
+  error: RepositoryError | null;
 }
 
 // Cache types
 export interface CacheData {
-  songs: Song[];
+  version?: number; // Cache format version, see utils/cacheMigrations.ts
+  songs: SongSummary[];
+  topics: Topic[];
   favourites: Favourite[];
   folders: Folder[];
+  folderMemberships: SongFolder[]; // song_folders rows for the user's folders
   lastUpdated: number;
+  songsWatermark?: string | null; // Latest server updated_at/deleted_at seen by the songs sync
+}
+
+
+// Realtime sync types
+export type RealtimeTable = 'favourites' | 'folders' | 'song_folders';
+
+export type RealtimeStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface RealtimeChange {
+  table: RealtimeTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: { [key: string]: any };
+  old: { [key: string]: any };
+}
+
+// Offline mutation outbox types
+export type OutboxMutation =
+  | { type: 'addFavourite'; songId: number }
+  | { type: 'removeFavourite'; songId: number }
+  | { type: 'createFolder'; folderId: number; name: string } // folderId is a temporary local id
+  | { type: 'updateFolder'; folderId: number; name: string }
+  | { type: 'deleteFolder'; folderId: number }
+  | { type: 'addSongToFolder'; songId: number; folderId: number }
+  | { type: 'removeSongFromFolder'; songId: number; folderId: number };
+
+export type OutboxEntry = OutboxMutation & {
+  id: string;
+  userId: string;
+  createdAt: number;
+  attempts: number;
+  lastError?: string | null;
+};
+
+// A change shown locally while its request is still on the way to the server
+export interface OptimisticChange {
+  id: string;
+  mutation: OutboxMutation;
+  startedAt: number;
+}
+
+// Row the server returned for a confirmed change
+export type ServerRow = Favourite | Folder | SongFolder;
+
+// Shown when the server rejected a change and it was undone locally
+export interface RollbackNotice {
+  id: string;
+  message: string;
+}
+
+// Library backup types (see utils/backup.ts)
+export interface SongReference {
+  number: number;
+  songbook: string;
+}
+
+export interface LibraryBackup {
+  format: 'singhisword-library';
+  version: number;
+  exportedAt: string;
+  favourites: SongReference[];
+  folders: { name: string; songs: SongReference[] }[]; // Songs in the order they were added
+}
+
+export type BackupConflict =
+  | { type: 'duplicate_folder'; folderName: string } // Would hit folders_user_name_unique
+  | { type: 'unknown_song'; reference: SongReference; location: string }; // location: 'Favourites' or a folder name
+
+export interface BackupFolderPlan {
+  name: string;
+  existingFolderId: number | null; // Set when a folder with this name exists; songs are added to it
+  songIds: number[]; // In file order, leaving out songs the folder already has
+}
+
+// What importing a backup would change, shown before anything is applied
+export interface BackupImportPlan {
+  favouriteSongIds: number[]; // Songs that aren't favourites yet
+  folders: BackupFolderPlan[];
+  conflicts: BackupConflict[];
 }
 
 // Search and filter types
 export interface SearchFilters {
   query: string;
-  sortBy: 'number' | 'title' | 'recent';
+  sortBy: 'number' | 'title' | 'recent'; // Recent is recently viewed, or recently added for favourites and folders
   sortOrder: 'asc' | 'desc';
+  favouritesOnly: boolean;
 }
+
+// Song lists that remember their own sort and filter
+export type SongListId = 'songs' | 'favourites' | 'folder';
+
+// What's saved per list; the search query itself isn't kept
+export type ListFilters = Omit<SearchFilters, 'query'>;
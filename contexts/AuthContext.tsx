@@ -1,7 +1,8 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { User as SupabaseUser, Session } from '@supabase/supabase-js';
-import { supabaseClient } from '../constants/Config';
+import { supabaseClient, DATA_SOURCE } from '../constants/Config';
+import { appStorage } from '../utils/storage';
 
 interface AuthContextType {
   user: SupabaseUser | null;
@@ -15,6 +16,18 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// With local data there is no Supabase Auth; any email signs in as a device-only account
+const LOCAL_SESSION_KEY = 'songbook_local_session';
+
+const createLocalUser = (email: string): SupabaseUser => ({
+  id: `local:${email.trim().toLowerCase()}`,
+  email: email.trim().toLowerCase(),
+  aud: 'authenticated',
+  app_metadata: {},
+  user_metadata: {},
+  created_at: new Date(0).toISOString(),
+});
+
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -27,6 +40,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Initialize auth state and set up auth listener
   useEffect(() => {
     console.log('🔐 AuthProvider: Initializing authentication...');
+
+    if (DATA_SOURCE === 'local') {
+      appStorage.getItem(LOCAL_SESSION_KEY).then((email) => {
+        console.log('🔐 AuthProvider: Local session:', email ? 'Found' : 'None');
+        setUser(email ? createLocalUser(email) : null);
+        setIsLoading(false);
+      });
+      return;
+    }
     
     // Get initial session
     supabaseClient.auth.getSession().then(({ data: { session } }) => {
@@ -52,9 +74,20 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
   }, []);
 
+  // Sign in to a device-only account when running on local data
+  const signInLocally = async (email: string) => {
+    await appStorage.setItem(LOCAL_SESSION_KEY, email.trim().toLowerCase());
+    setUser(createLocalUser(email));
+    return { error: null };
+  };
+
   // Sign up new user
   const signUp = async (email: string, password: string) => {
     console.log('🔐 AuthProvider: Attempting sign up for:', email);
+    if (DATA_SOURCE === 'local') {
+      return signInLocally(email);
+    }
+
     console.log('🔐 AuthProvider: Supabase URL:', supabaseClient.supabaseUrl);
     
     try {
@@ -124,6 +157,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Sign in existing user
   const signIn = async (email: string, password: string) => {
     console.log('🔐 AuthProvider: Attempting sign in for:', email);
+    if (DATA_SOURCE === 'local') {
+      return signInLocally(email);
+    }
     try {
       const { data, error } = await supabaseClient.auth.signInWithPassword({
         email,
@@ -168,6 +204,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Sign out user
   const signOut = async () => {
     console.log('🔐 AuthProvider: Signing out user');
+    if (DATA_SOURCE === 'local') {
+      await appStorage.removeItem(LOCAL_SESSION_KEY);
+      setUser(null);
+      return;
+    }
     try {
       const { error } = await supabaseClient.auth.signOut();
       if (error) {
@@ -184,6 +225,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Reset password
   const resetPassword = async (email: string) => {
     console.log('🔐 AuthProvider: Requesting password reset for:', email);
+    if (DATA_SOURCE === 'local') {
+      return { error: { message: 'Password reset is not available for local accounts' } };
+    }
     try {
       const { error } = await supabaseClient.auth.resetPasswordForEmail(email, {
         redirectTo: 'singhisword://reset-password', // Deep link for your app
@@ -1,15 +1,81 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Song, Favourite, Folder, CacheData, APP_CONFIG, AppSettings, ThemeMode } from '../constants/Config';
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import uuid from 'react-native-uuid';
+import { appStorage } from '../utils/storage';
+import {
+  SongSummary,
+  Topic,
+  Favourite,
+  Folder,
+  SongFolder,
+  CacheData,
+  APP_CONFIG,
+  AppSettings,
+  ThemeMode,
+  ConnectivityStatus,
+  OutboxEntry,
+  OutboxMutation,
+  OptimisticChange,
+  RollbackNotice,
+  ServerRow,
+  AppError,
+  RealtimeChange,
+  RealtimeStatus,
+} from '../constants/Config';
 import { useAuth } from './AuthContext';
+import { useConnectivity } from '../hooks/useConnectivity';
+import {
+  applyMutationToCache,
+  appendToOutbox,
+  createOutboxEntry,
+  describeMutation,
+  isTempId,
+  rebaseOnMutations,
+  remapFolderId,
+  replayMutation,
+} from '../utils/outbox';
+import { Rollback, createRollback, reconcileWithServerRow } from '../utils/optimistic';
+import { CACHE_VERSION } from '../utils/cacheMigrations';
+import { clearLyricsCache } from '../utils/lyricsCache';
+import {
+  SHARED_STORAGE_KEYS,
+  getUserStorageKeys,
+  migrateLegacyStorage,
+  purgeUserStorage,
+  readCacheData,
+  splitCacheData,
+} from '../utils/cacheStorage';
+import { ChangeFeed, applyRealtimeChange, getDefaultChangeFeed } from '../utils/realtime';
 
 interface OfflineContextType {
   // Cache data
-  cachedSongs: Song[];
+  cachedSongs: SongSummary[];
+  cachedTopics: Topic[];
   cachedFavourites: Favourite[];
   cachedFolders: Folder[];
+  cachedFolderMemberships: SongFolder[];
+  songsWatermark: string | null;
   isOffline: boolean;
   lastSync: Date | null;
+  isCacheLoaded: boolean; // Cached data for the current account has been read from storage
+  
+  // Connectivity
+  connectivity: ConnectivityStatus;
+  connectivityChangedAt: Date;
+  checkConnectivity: () => Promise<ConnectivityStatus>;
+  
+  // Offline mutation outbox
+  pendingMutations: OutboxEntry[];
+  failedMutations: OutboxEntry[];
+  isReplaying: boolean;
+
+  // Changes shown locally while the server confirms them
+  optimisticChanges: OptimisticChange[];
+  rollbackNotice: RollbackNotice | null;
+  
+  // Live changes from other devices
+  realtimeStatus: RealtimeStatus;
+  lastRealtimeChange: RealtimeChange | null;
   
   // Settings
   settings: AppSettings;
@@ -19,13 +85,26 @@ interface OfflineContextType {
   clearCache: () => Promise<void>;
   getCacheSize: () => Promise<number>;
   
+  // Outbox management
+  enqueueMutation: (mutation: OutboxMutation) => Promise<void>;
+  hasQueuedMutations: () => boolean; // Reads the outbox directly, so it is current between renders
+  replayOutbox: () => Promise<void>;
+  retryFailedMutation: (id: string) => Promise<void>;
+  dismissFailedMutation: (id: string) => Promise<void>;
+
+  // Optimistic changes: apply locally, then confirm with the server row or roll back
+  applyOptimisticChange: (mutation: OutboxMutation) => Promise<string>;
+  confirmOptimisticChange: (id: string, serverRow?: ServerRow | null) => Promise<void>;
+  rollbackOptimisticChange: (id: string, error: AppError) => Promise<void>;
+  dismissRollbackNotice: () => void;
+  
   // Settings management
   updateSettings: (newSettings: Partial<AppSettings>) => Promise<void>;
   toggleTheme: () => Promise<void>;
   updateFontSize: (size: number) => Promise<void>;
   
   // Data getters with offline fallback
-  getSongs: () => Song[];
+  getSongs: () => SongSummary[];
   getFavourites: () => Favourite[];
   getFolders: () => Folder[];
   isCacheExpired: () => boolean;
@@ -35,12 +114,18 @@ const OfflineContext = createContext<OfflineContextType | undefined>(undefined);
 
 interface OfflineProviderProps {
   children: ReactNode;
+  changeFeed?: ChangeFeed; // Defaults to Supabase Realtime (or the local stand-in feed)
 }
 
+// Delay before resubscribing after the realtime channel drops
+const REALTIME_RETRY_DELAY = 5000;
+
 const DEFAULT_SETTINGS: AppSettings = {
   theme: 'light' as ThemeMode,
   fontSize: 16,
   autoSync: true,
+  listFilters: {},
+  lyricsView: 'singers',
 };
 
 // Ensure settings always have valid values
@@ -48,99 +133,426 @@ const ensureValidSettings = (settings: AppSettings): AppSettings => ({
   theme: settings?.theme || 'light',
   fontSize: Math.max(settings?.fontSize || 16, 12),
   autoSync: settings?.autoSync ?? true,
+  listFilters: settings?.listFilters || {},
+  lyricsView: settings?.lyricsView === 'musicians' ? 'musicians' : 'singers',
 });
 
-export const OfflineProvider: React.FC<OfflineProviderProps> = ({ children }) => {
+export const OfflineProvider: React.FC<OfflineProviderProps> = ({ children, changeFeed }) => {
   const { user } = useAuth();
-  const [cachedSongs, setCachedSongs] = useState<Song[]>([]);
+  const [cachedSongs, setCachedSongs] = useState<SongSummary[]>([]);
+  const [cachedTopics, setCachedTopics] = useState<Topic[]>([]);
   const [cachedFavourites, setCachedFavourites] = useState<Favourite[]>([]);
   const [cachedFolders, setCachedFolders] = useState<Folder[]>([]);
-  const [isOffline, setIsOffline] = useState(false);
+  const [cachedFolderMemberships, setCachedFolderMemberships] = useState<SongFolder[]>([]);
+  const [songsWatermark, setSongsWatermark] = useState<string | null>(null);
+  const { status: connectivity, changedAt: connectivityChangedAt, checkNow: checkConnectivity } = useConnectivity();
+  const isOffline = connectivity === 'offline';
   const [lastSync, setLastSync] = useState<Date | null>(null);
+  const [isCacheLoaded, setIsCacheLoaded] = useState(false);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [pendingMutations, setPendingMutations] = useState<OutboxEntry[]>([]);
+  const [failedMutations, setFailedMutations] = useState<OutboxEntry[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [optimisticChanges, setOptimisticChanges] = useState<OptimisticChange[]>([]);
+  const [rollbackNotice, setRollbackNotice] = useState<RollbackNotice | null>(null);
+  const [realtimeStatus, setRealtimeStatus] = useState<RealtimeStatus>('disconnected');
+  const [lastRealtimeChange, setLastRealtimeChange] = useState<RealtimeChange | null>(null);
 
-  const STORAGE_KEYS = {
-    CACHE_DATA: 'songbook_cache_data',
-    SETTINGS: 'songbook_settings',
-    LAST_SYNC: 'songbook_last_sync',
-  };
+  // Refs mirror the latest cache and outbox so async replays never work on stale state
+  const cacheRef = useRef<CacheData>({ version: CACHE_VERSION, songs: [], topics: [], favourites: [], folders: [], folderMemberships: [], lastUpdated: 0 });
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const failedRef = useRef<OutboxEntry[]>([]);
+  const isReplayingRef = useRef(false);
+  const optimisticRef = useRef(new Map<string, { change: OptimisticChange; rollback: Rollback }>());
+  const feedRef = useRef<ChangeFeed>(changeFeed || getDefaultChangeFeed());
+  const unsubscribeRealtimeRef = useRef<(() => void) | null>(null);
+  const realtimeRetryRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Load cached data from AsyncStorage
+  // Private data lives under per-user keys; the songs catalog is shared by all accounts
+  const userKeys = user ? getUserStorageKeys(user.id) : null;
+  const previousUserIdRef = useRef<string | null>(null);
+
+  // Load cached data from storage
   const loadCachedData = async (): Promise<void> => {
+    setIsCacheLoaded(false);
     try {
-      const [cachedDataString, settingsString, lastSyncString] = await Promise.all([
-        AsyncStorage.getItem(STORAGE_KEYS.CACHE_DATA),
-        AsyncStorage.getItem(STORAGE_KEYS.SETTINGS),
-        AsyncStorage.getItem(STORAGE_KEYS.LAST_SYNC),
+      await migrateLegacyStorage();
+
+      const [catalog, library, settingsString, lastSyncString, outboxString, failedString] = await Promise.all([
+        readCacheData(SHARED_STORAGE_KEYS.SONG_CATALOG, SHARED_STORAGE_KEYS.SONG_CATALOG_QUARANTINE),
+        userKeys ? readCacheData(userKeys.CACHE_DATA, userKeys.CACHE_QUARANTINE) : null,
+        appStorage.getItem(userKeys?.SETTINGS || SHARED_STORAGE_KEYS.DEVICE_SETTINGS),
+        userKeys ? appStorage.getItem(userKeys.LAST_SYNC) : null,
+        userKeys ? appStorage.getItem(userKeys.OUTBOX) : null,
+        userKeys ? appStorage.getItem(userKeys.FAILED_MUTATIONS) : null,
       ]);
 
-      // Load cache data
-      if (cachedDataString) {
-        const cacheData: CacheData = JSON.parse(cachedDataString);
-        setCachedSongs(cacheData.songs || []);
-        setCachedFavourites(cacheData.favourites || []);
-        setCachedFolders(cacheData.folders || []);
+      // Load cache data; the library always comes from this account's keys only
+      cacheRef.current = {
+        version: CACHE_VERSION,
+        songs: catalog?.songs || [],
+        topics: catalog?.topics || [],
+        favourites: library?.favourites || [],
+        folders: library?.folders || [],
+        folderMemberships: library?.folderMemberships || [],
+        lastUpdated: Math.max(catalog?.lastUpdated || 0, library?.lastUpdated || 0),
+        songsWatermark: catalog?.songsWatermark || null,
+      };
+      setCachedSongs(cacheRef.current.songs);
+      setCachedTopics(cacheRef.current.topics);
+      setCachedFavourites(cacheRef.current.favourites);
+      setCachedFolders(cacheRef.current.folders);
+      setCachedFolderMemberships(cacheRef.current.folderMemberships);
+      setSongsWatermark(cacheRef.current.songsWatermark || null);
+
+      // Load queued offline changes
+      outboxRef.current = outboxString ? JSON.parse(outboxString) : [];
+      failedRef.current = failedString ? JSON.parse(failedString) : [];
+      setPendingMutations(outboxRef.current);
+      setFailedMutations(failedRef.current);
+      if (outboxRef.current.length > 0 && !isOffline) {
+        replayOutbox();
       }
 
-      // Load settings
-      if (settingsString) {
-        const loadedSettings = JSON.parse(settingsString);
+      // Load settings, starting a new account from the device settings
+      const deviceSettingsString = userKeys && !settingsString
+        ? await appStorage.getItem(SHARED_STORAGE_KEYS.DEVICE_SETTINGS)
+        : null;
+      const storedSettings = settingsString || deviceSettingsString;
+      if (storedSettings) {
+        const loadedSettings = JSON.parse(storedSettings);
         setSettings(ensureValidSettings({ ...DEFAULT_SETTINGS, ...loadedSettings }));
       } else {
         setSettings(ensureValidSettings(DEFAULT_SETTINGS));
       }
 
       // Load last sync date
-      if (lastSyncString) {
-        setLastSync(new Date(lastSyncString));
-      }
+      setLastSync(lastSyncString ? new Date(lastSyncString) : null);
     } catch (error) {
       console.error('Error loading cached data:', error);
+    } finally {
+      setIsCacheLoaded(true);
     }
   };
 
+  // Write cache data to state and storage; local-only edits don't count as a sync
+  const writeCache = async (data: Partial<CacheData>, markSynced: boolean): Promise<void> => {
+    // Update state
+    if (data.songs !== undefined) setCachedSongs(data.songs);
+    if (data.topics !== undefined) setCachedTopics(data.topics);
+    if (data.favourites !== undefined) setCachedFavourites(data.favourites);
+    if (data.folders !== undefined) setCachedFolders(data.folders);
+    if (data.folderMemberships !== undefined) setCachedFolderMemberships(data.folderMemberships);
+    if (data.songsWatermark !== undefined) setSongsWatermark(data.songsWatermark);
+
+    // Prepare cache data object
+    const cacheData: CacheData = {
+      ...cacheRef.current,
+      ...data,
+      version: CACHE_VERSION,
+      lastUpdated: Date.now(),
+    };
+    cacheRef.current = cacheData;
+
+    // Save to storage - the catalog is shared, favourites and folders belong to the user
+    const { catalog, library } = splitCacheData(cacheData);
+    if (data.songs !== undefined || data.topics !== undefined || data.songsWatermark !== undefined) {
+      await appStorage.setItem(SHARED_STORAGE_KEYS.SONG_CATALOG, JSON.stringify(catalog));
+    }
+    if (userKeys && (data.favourites !== undefined || data.folders !== undefined || data.folderMemberships !== undefined)) {
+      await appStorage.setItem(userKeys.CACHE_DATA, JSON.stringify(library));
+    }
+
+    if (markSynced && userKeys) {
+      await appStorage.setItem(userKeys.LAST_SYNC, new Date().toISOString());
+      setLastSync(new Date());
+    }
+  };
+
+  // Local changes the server hasn't confirmed yet: the outbox first, then requests in flight
+  const getPendingLocalMutations = (): OutboxMutation[] => [
+    ...outboxRef.current.filter(entry => entry.userId === user?.id),
+    ...Array.from(optimisticRef.current.values(), ({ change }) => change.mutation),
+  ];
+
+  const isCreatingFolder = (folderId: number): boolean =>
+    isTempId(folderId) && Array.from(optimisticRef.current.values()).some(
+      ({ change }) => change.mutation.type === 'createFolder' && change.mutation.folderId === folderId
+    );
+
   // Update cache with new data
   const updateCache = async (data: Partial<CacheData>): Promise<void> => {
     try {
-      const currentTime = Date.now();
-      
-      // Update state
-      if (data.songs !== undefined) setCachedSongs(data.songs);
-      if (data.favourites !== undefined) setCachedFavourites(data.favourites);
-      if (data.folders !== undefined) setCachedFolders(data.folders);
-
-      // Prepare cache data object
-      const cacheData: CacheData = {
-        songs: data.songs !== undefined ? data.songs : cachedSongs,
-        favourites: data.favourites !== undefined ? data.favourites : cachedFavourites,
-        folders: data.folders !== undefined ? data.folders : cachedFolders,
-        lastUpdated: currentTime,
-      };
+      const pending = getPendingLocalMutations();
+      if (user && pending.length > 0 && (data.favourites || data.folders || data.folderMemberships)) {
+        // Server data doesn't include queued or in-flight changes yet - keep them visible
+        const rebased = rebaseOnMutations({ ...cacheRef.current, ...data }, pending, user.id);
+        if (data.favourites) data = { ...data, favourites: rebased.favourites };
+        if (data.folders) data = { ...data, folders: rebased.folders };
+        if (data.folderMemberships) data = { ...data, folderMemberships: rebased.folderMemberships };
+      }
+      await writeCache(data, true);
+    } catch (error) {
+      console.error('Error updating cache:', error);
+      throw error;
+    }
+  };
 
-      // Save to AsyncStorage
-      await Promise.all([
-        AsyncStorage.setItem(STORAGE_KEYS.CACHE_DATA, JSON.stringify(cacheData)),
-        AsyncStorage.setItem(STORAGE_KEYS.LAST_SYNC, new Date().toISOString()),
-      ]);
+  // Persist the outbox and failed list
+  const saveOutbox = async (outbox: OutboxEntry[], failed: OutboxEntry[] = failedRef.current): Promise<void> => {
+    outboxRef.current = outbox;
+    failedRef.current = failed;
+    setPendingMutations(outbox);
+    setFailedMutations(failed);
+    if (!userKeys) return;
+    await appStorage.multiSet([
+      [userKeys.OUTBOX, JSON.stringify(outbox)],
+      [userKeys.FAILED_MUTATIONS, JSON.stringify(failed)],
+    ]);
+  };
 
-      setLastSync(new Date());
+  // Record a change locally and queue it for Supabase
+  const enqueueMutation = async (mutation: OutboxMutation): Promise<void> => {
+    if (!user) {
+      throw new Error('No user found');
+    }
+
+    try {
+      const changes = applyMutationToCache(cacheRef.current, mutation, user.id);
+      await writeCache(changes, false);
+      await saveOutbox(appendToOutbox(outboxRef.current, createOutboxEntry(mutation, user.id)));
+      console.log('📥 Queued offline change:', mutation.type);
     } catch (error) {
-      console.error('Error updating cache:', error);
+      console.error('Error queueing change:', error);
       throw error;
     }
+
+    if (!isOffline) {
+      replayOutbox();
+    }
+  };
+
+  const hasQueuedMutations = (): boolean => outboxRef.current.length > 0;
+
+  // Send queued changes to Supabase in the order they were made
+  const replayOutbox = async (): Promise<void> => {
+    if (!user || isReplayingRef.current || outboxRef.current.length === 0) return;
+
+    isReplayingRef.current = true;
+    setIsReplaying(true);
+    console.log('📤 Replaying offline changes:', outboxRef.current.length);
+
+    try {
+      while (outboxRef.current.length > 0) {
+        const [entry, ...rest] = outboxRef.current;
+
+        // Never send another account's queued changes with this session; signing that account
+        // out discarded them along with the rest of its private data
+        if (entry.userId !== user.id) break;
+
+        // Wait for a folder whose create is still in flight; confirming it remaps this entry
+        if (entry.type !== 'createFolder' && 'folderId' in entry && isCreatingFolder(entry.folderId)) break;
+
+        const result = await replayMutation(entry);
+
+        if (result.error?.retryable) {
+          // Still offline or the server is struggling - keep the entry and try again later
+          await saveOutbox([{ ...entry, attempts: entry.attempts + 1, lastError: result.error.message }, ...rest]);
+          break;
+        }
+
+        if (result.error) {
+          console.log('⚠️ Offline change rejected:', entry.type, result.error.details || result.error.message);
+          await saveOutbox(rest, [...failedRef.current, { ...entry, attempts: entry.attempts + 1, lastError: result.error.message }]);
+          continue;
+        }
+
+        if (entry.type === 'createFolder' && result.folder?.id) {
+          // Swap the temporary folder for the server row and update queued references
+          const realId = result.folder.id;
+          // The realtime insert may already have added the server row
+          await writeCache({
+            folders: cacheRef.current.folders
+              .filter(folder => folder.id !== realId)
+              .map(folder => (folder.id === entry.folderId ? result.folder! : folder)),
+            folderMemberships: cacheRef.current.folderMemberships.map(membership =>
+              membership.folder_id === entry.folderId ? { ...membership, folder_id: realId } : membership
+            ),
+          }, false);
+          await saveOutbox(remapFolderId(rest, entry.folderId, realId));
+          continue;
+        }
+
+        await saveOutbox(rest);
+      }
+    } catch (error) {
+      console.error('Error replaying offline changes:', error);
+    } finally {
+      isReplayingRef.current = false;
+      setIsReplaying(false);
+    }
+  };
+
+  // Apply a change made on another device (or echoed back from this one)
+  const handleRealtimeChange = async (change: RealtimeChange): Promise<void> => {
+    if (!user) return;
+
+    try {
+      let changes = applyRealtimeChange(cacheRef.current, change, user.id);
+      const pending = getPendingLocalMutations();
+      if (pending.length > 0 && (changes.favourites || changes.folders || changes.folderMemberships)) {
+        // Keep queued and in-flight local changes on top of the remote state
+        const rebased = rebaseOnMutations({ ...cacheRef.current, ...changes }, pending, user.id);
+        if (changes.favourites) changes = { ...changes, favourites: rebased.favourites };
+        if (changes.folders) changes = { ...changes, folders: rebased.folders };
+        if (changes.folderMemberships) changes = { ...changes, folderMemberships: rebased.folderMemberships };
+      }
+      if (Object.keys(changes).length > 0) {
+        await writeCache(changes, false);
+      }
+      setLastRealtimeChange(change);
+    } catch (error) {
+      console.error('Error applying realtime change:', error);
+    }
+  };
+
+  // Stop listening for live changes
+  const unsubscribeRealtime = (): void => {
+    if (realtimeRetryRef.current) {
+      clearTimeout(realtimeRetryRef.current);
+      realtimeRetryRef.current = null;
+    }
+    const unsubscribe = unsubscribeRealtimeRef.current;
+    // Clear the ref first so the resulting 'closed' status doesn't schedule a retry
+    unsubscribeRealtimeRef.current = null;
+    if (unsubscribe) {
+      unsubscribe();
+    }
+    setRealtimeStatus('disconnected');
+  };
+
+  // (Re)subscribe to live changes for the signed-in user
+  const subscribeRealtime = (): void => {
+    unsubscribeRealtime();
+    if (!user || isOffline) return;
+
+    unsubscribeRealtimeRef.current = feedRef.current.subscribe(
+      user.id,
+      change => {
+        handleRealtimeChange(change);
+      },
+      status => {
+        setRealtimeStatus(status);
+        if (status === 'disconnected' && unsubscribeRealtimeRef.current && !realtimeRetryRef.current) {
+          // Channel dropped (error, timeout or closed) - try again shortly
+          realtimeRetryRef.current = setTimeout(() => {
+            realtimeRetryRef.current = null;
+            if (AppState.currentState === 'active') {
+              subscribeRealtime();
+            }
+          }, REALTIME_RETRY_DELAY);
+        }
+      }
+    );
+  };
+
+  // Put a rejected change back at the end of the outbox
+  const retryFailedMutation = async (id: string): Promise<void> => {
+    const entry = failedRef.current.find(failed => failed.id === id);
+    if (!entry) return;
+
+    await saveOutbox(
+      [...outboxRef.current, { ...entry, lastError: null }],
+      failedRef.current.filter(failed => failed.id !== id)
+    );
+
+    if (!isOffline) {
+      await replayOutbox();
+    }
+  };
+
+  // Forget a rejected change
+  const dismissFailedMutation = async (id: string): Promise<void> => {
+    await saveOutbox(outboxRef.current, failedRef.current.filter(failed => failed.id !== id));
+  };
+
+  // ===== OPTIMISTIC CHANGES =====
+  // Apply a change to the cache before the server has it; returns an id to confirm or roll back
+  const applyOptimisticChange = async (mutation: OutboxMutation): Promise<string> => {
+    if (!user) {
+      throw new Error('No user found');
+    }
+
+    const change: OptimisticChange = { id: uuid.v4() as string, mutation, startedAt: Date.now() };
+    optimisticRef.current.set(change.id, { change, rollback: createRollback(cacheRef.current, mutation, user.id) });
+    setOptimisticChanges(Array.from(optimisticRef.current.values(), entry => entry.change));
+    await writeCache(applyMutationToCache(cacheRef.current, mutation, user.id), false);
+    return change.id;
+  };
+
+  const forgetOptimisticChange = (id: string) => {
+    const entry = optimisticRef.current.get(id);
+    optimisticRef.current.delete(id);
+    setOptimisticChanges(Array.from(optimisticRef.current.values(), ({ change }) => change));
+    return entry;
+  };
+
+  // The server accepted the change (or it moved to the outbox); adopt the row it returned
+  const confirmOptimisticChange = async (id: string, serverRow?: ServerRow | null): Promise<void> => {
+    const entry = forgetOptimisticChange(id);
+    if (!entry || !user || !serverRow) return;
+
+    const { mutation } = entry.change;
+    await writeCache(reconcileWithServerRow(cacheRef.current, mutation, serverRow, user.id), false);
+
+    if (mutation.type === 'createFolder' && (serverRow as Folder).id) {
+      // Changes queued for the folder while it was being created can go now
+      await saveOutbox(remapFolderId(outboxRef.current, mutation.folderId, (serverRow as Folder).id!));
+      if (!isOffline) {
+        replayOutbox();
+      }
+    }
+  };
+
+  // The server rejected the change; undo it and tell the user
+  const rollbackOptimisticChange = async (id: string, error: AppError): Promise<void> => {
+    const entry = forgetOptimisticChange(id);
+    if (!entry) return;
+
+    const { mutation } = entry.change;
+    await writeCache(entry.rollback(cacheRef.current), false);
+
+    if (mutation.type === 'createFolder') {
+      // Anything queued for the folder has nowhere to go
+      await saveOutbox(outboxRef.current.filter(queued => !('folderId' in queued && queued.folderId === mutation.folderId)));
+    }
+
+    const description = describeMutation(mutation, cacheRef.current.songs, cacheRef.current.folders);
+    console.log('↩️ Change rolled back:', mutation.type, error.details || error.message);
+    setRollbackNotice({ id, message: `Couldn't save: ${description}. ${error.message}` });
+  };
+
+  const dismissRollbackNotice = (): void => {
+    setRollbackNotice(null);
   };
 
   // Clear all cached data
   const clearCache = async (): Promise<void> => {
     try {
-      await AsyncStorage.multiRemove([
-        STORAGE_KEYS.CACHE_DATA,
-        STORAGE_KEYS.LAST_SYNC,
+      await appStorage.multiRemove([
+        SHARED_STORAGE_KEYS.SONG_CATALOG,
+        SHARED_STORAGE_KEYS.SONG_CATALOG_QUARANTINE,
+        ...(userKeys ? [userKeys.CACHE_DATA, userKeys.CACHE_QUARANTINE, userKeys.LAST_SYNC] : []),
       ]);
+      await clearLyricsCache();
       
+      cacheRef.current = { version: CACHE_VERSION, songs: [], topics: [], favourites: [], folders: [], folderMemberships: [], lastUpdated: 0 };
       setCachedSongs([]);
+      setCachedTopics([]);
       setCachedFavourites([]);
       setCachedFolders([]);
+      setCachedFolderMemberships([]);
+      setSongsWatermark(null);
       setLastSync(null);
     } catch (error) {
       console.error('Error clearing cache:', error);
@@ -151,8 +563,11 @@ export const OfflineProvider: React.FC<OfflineProviderProps> = ({ children }) =>
   // Get cache size in bytes (approximate)
   const getCacheSize = async (): Promise<number> => {
     try {
-      const cachedDataString = await AsyncStorage.getItem(STORAGE_KEYS.CACHE_DATA);
-      return cachedDataString ? new Blob([cachedDataString]).size : 0;
+      const [catalogString, libraryString] = await Promise.all([
+        appStorage.getItem(SHARED_STORAGE_KEYS.SONG_CATALOG),
+        userKeys ? appStorage.getItem(userKeys.CACHE_DATA) : null,
+      ]);
+      return new Blob([catalogString || '', libraryString || '']).size;
     } catch (error) {
       console.error('Error getting cache size:', error);
       return 0;
@@ -164,7 +579,7 @@ export const OfflineProvider: React.FC<OfflineProviderProps> = ({ children }) =>
     try {
       const updatedSettings = { ...settings, ...newSettings };
       setSettings(updatedSettings);
-      await AsyncStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(updatedSettings));
+      await appStorage.setItem(userKeys?.SETTINGS || SHARED_STORAGE_KEYS.DEVICE_SETTINGS, JSON.stringify(updatedSettings));
     } catch (error) {
       console.error('Error updating settings:', error);
       throw error;
@@ -190,7 +605,7 @@ export const OfflineProvider: React.FC<OfflineProviderProps> = ({ children }) =>
   };
 
   // Data getters with offline support
-  const getSongs = (): Song[] => cachedSongs;
+  const getSongs = (): SongSummary[] => cachedSongs;
   const getFavourites = (): Favourite[] => {
     if (!user) return [];
     return cachedFavourites.filter(fav => fav.user_id === user.id);
@@ -200,28 +615,97 @@ export const OfflineProvider: React.FC<OfflineProviderProps> = ({ children }) =>
     return cachedFolders.filter(folder => folder.user_id === user.id);
   };
 
-  // Network status monitoring (simplified)
-  useEffect(() => {
-    // In a real app, you'd use @react-native-community/netinfo
-    // For now, we'll assume online unless specific errors occur
-    setIsOffline(false);
-  }, []);
+  // These read the latest user, connection and cache state, so they change identity with every
+  // render; the effects below always call the latest versions
+  const latestRef = useRef({ replayOutbox, subscribeRealtime, unsubscribeRealtime });
+  latestRef.current = { replayOutbox, subscribeRealtime, unsubscribeRealtime };
 
   // Load cached data on mount and when user changes
   useEffect(() => {
+    // Requests still in flight belong to the previous account
+    optimisticRef.current.clear();
+    setOptimisticChanges([]);
+    setRollbackNotice(null);
     loadCachedData();
   }, [user]);
 
+  // Wipe the previous account's private data when it signs out (or another account signs in),
+  // so shared devices don't keep someone else's favourites, folders or queued changes. Unsent
+  // changes are lost; settings are kept for when the account signs back in
+  useEffect(() => {
+    const previousUserId = previousUserIdRef.current;
+    previousUserIdRef.current = user?.id ?? null;
+
+    if (previousUserId && previousUserId !== user?.id) {
+      console.log('🧹 Removing offline data for signed-out account');
+      purgeUserStorage(previousUserId).catch(error => {
+        console.error('Error removing signed-out account data:', error);
+      });
+    }
+  }, [user]);
+
+  // Replay queued changes whenever we are (back) online
+  useEffect(() => {
+    if (!isOffline && user) {
+      latestRef.current.replayOutbox();
+    }
+  }, [isOffline, user]);
+
+  // Listen for live changes while signed in and online
+  useEffect(() => {
+    latestRef.current.subscribeRealtime();
+    return () => latestRef.current.unsubscribeRealtime();
+  }, [isOffline, user]);
+
+  // Retry queued changes and resubscribe when the app returns to the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        if (!isOffline && outboxRef.current.length > 0) {
+          latestRef.current.replayOutbox();
+        }
+        latestRef.current.subscribeRealtime();
+      } else if (nextState === 'background') {
+        // The OS may kill the socket while backgrounded anyway
+        latestRef.current.unsubscribeRealtime();
+      }
+    });
+    return () => subscription.remove();
+  }, [isOffline, user]);
+
   const value: OfflineContextType = {
     cachedSongs,
+    cachedTopics,
     cachedFavourites,
     cachedFolders,
+    cachedFolderMemberships,
+    songsWatermark,
     isOffline,
     lastSync,
+    isCacheLoaded,
+    connectivity,
+    connectivityChangedAt,
+    checkConnectivity,
+    pendingMutations,
+    failedMutations,
+    isReplaying,
+    optimisticChanges,
+    rollbackNotice,
+    realtimeStatus,
+    lastRealtimeChange,
     settings,
     updateCache,
     clearCache,
     getCacheSize,
+    enqueueMutation,
+    hasQueuedMutations,
+    replayOutbox,
+    retryFailedMutation,
+    dismissFailedMutation,
+    applyOptimisticChange,
+    confirmOptimisticChange,
+    rollbackOptimisticChange,
+    dismissRollbackNotice,
     updateSettings,
     toggleTheme,
     updateFontSize,
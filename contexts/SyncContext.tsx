@@ -0,0 +1,151 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import { APP_CONFIG, AppError } from '../constants/Config';
+import { useAuth } from './AuthContext';
+import { useOffline } from './OfflineContext';
+import { useSupabase } from '../hooks/useSupabase';
+import { getBackoffDelay } from '../utils/helpers';
+import { toAppError } from '../utils/errors';
+
+interface SyncContextType {
+  isSyncing: boolean;
+  nextSyncAt: Date | null; // null while auto-sync is off, offline or signed out
+  lastSyncError: AppError | null;
+  syncNow: () => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+interface SyncProviderProps {
+  children: ReactNode;
+}
+
+// Runs syncAllData in the background when settings.autoSync is on: once the cache is older than
+// APP_CONFIG.cacheTimeout, when the app returns to the foreground and when connectivity returns.
+// Failed syncs are retried with jittered exponential backoff.
+export const SyncProvider: React.FC<SyncProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const { settings, isOffline, lastSync, isCacheLoaded } = useOffline();
+  const { syncAllData } = useSupabase();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSyncError, setLastSyncError] = useState<AppError | null>(null);
+  const [lastSuccessAt, setLastSuccessAt] = useState<number | null>(null);
+  const [retryAt, setRetryAt] = useState<number | null>(null); // Set while backing off after failures
+  const [nextSyncAt, setNextSyncAt] = useState<Date | null>(null);
+
+  // syncAllData changes identity with every cache update; always call the latest
+  const syncAllDataRef = useRef(syncAllData);
+  syncAllDataRef.current = syncAllData;
+  const isSyncingRef = useRef(false);
+  const failureCountRef = useRef(0);
+  const wasOfflineRef = useRef(isOffline);
+
+  // Wait for the stored settings and last sync time before deciding anything
+  const canAutoSync = isCacheLoaded && settings.autoSync && !!user && !isOffline;
+  const lastSyncedAt = Math.max(lastSync?.getTime() ?? 0, lastSuccessAt ?? 0);
+
+  const runSync = useCallback(async () => {
+    if (isSyncingRef.current) return;
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const result = await syncAllDataRef.current();
+      if (result.error) {
+        throw result.error;
+      }
+      failureCountRef.current = 0;
+      setLastSyncError(null);
+      setLastSuccessAt(Date.now());
+      setRetryAt(null);
+    } catch (error) {
+      failureCountRef.current += 1;
+      const delay = getBackoffDelay(
+        failureCountRef.current,
+        APP_CONFIG.syncRetryBaseDelay,
+        APP_CONFIG.syncRetryMaxDelay
+      );
+      console.log(`🔄 Background sync failed, retrying in ${Math.round(delay / 1000)}s`);
+      setLastSyncError(toAppError(error, 'Sync failed'));
+      setRetryAt(Date.now() + delay);
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, []);
+
+  // Foregrounding and reconnecting sync unless we synced recently or are backing off
+  const requestSync = useCallback(() => {
+    if (!canAutoSync) return;
+    if (retryAt !== null && retryAt > Date.now()) return;
+    if (Date.now() - lastSyncedAt < APP_CONFIG.autoSyncMinInterval) return;
+    runSync();
+  }, [canAutoSync, retryAt, lastSyncedAt, runSync]);
+
+  const requestSyncRef = useRef(requestSync);
+  requestSyncRef.current = requestSync;
+
+  // Schedule the next sync for when the cache expires (or the backoff ends)
+  useEffect(() => {
+    if (!canAutoSync) {
+      setNextSyncAt(null);
+      return;
+    }
+    if (isSyncing) return;
+
+    const dueAt = retryAt ?? (lastSyncedAt > 0 ? lastSyncedAt + APP_CONFIG.cacheTimeout : Date.now());
+    setNextSyncAt(new Date(dueAt));
+    const timer = setTimeout(runSync, Math.max(0, dueAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [canAutoSync, isSyncing, retryAt, lastSyncedAt, runSync]);
+
+  // Sync when connectivity returns
+  useEffect(() => {
+    const cameOnline = wasOfflineRef.current && !isOffline;
+    wasOfflineRef.current = isOffline;
+    if (cameOnline) {
+      requestSyncRef.current();
+    }
+  }, [isOffline]);
+
+  // Sync when the app returns to the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        requestSyncRef.current();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Start over with a new account
+  useEffect(() => {
+    failureCountRef.current = 0;
+    setRetryAt(null);
+    setLastSuccessAt(null);
+    setLastSyncError(null);
+  }, [user?.id]);
+
+  // Sync right away, whatever the schedule says
+  const syncNow = useCallback(async () => {
+    await runSync();
+  }, [runSync]);
+
+  const value: SyncContextType = {
+    isSyncing,
+    nextSyncAt,
+    lastSyncError,
+    syncNow,
+  };
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
+};
+
+// Hook to use sync context
+export const useSync = (): SyncContextType => {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+};
@@ -0,0 +1,71 @@
+-- ChordPro lyrics
+-- Run after song_search.sql. Lyrics may carry chords inline ("[G]Amazing [C]grace") and
+-- ChordPro directive lines ("{title: ...}"). The song list's first line and the search vector
+-- are rebuilt from the words only, so chords and section markers don't show in lists or split
+-- words in search.
+
+-- Lyrics without chords or directive lines, matching toPlainLyrics in utils/chordPro.ts (the
+-- chord pattern is CHORD_PATTERN there); section markers such as [Verse 1] or [Bridge] aren't
+-- chords and are kept
+CREATE OR REPLACE FUNCTION public.lyrics_plain_text(lyrics TEXT)
+RETURNS TEXT AS $$
+  SELECT regexp_replace(
+    regexp_replace(coalesce(lyrics, ''), '^\s*\{[^}]*\}\s*$', '', 'gn'),
+    '\[([A-G][#b♯♭]?(maj|min|dim|aug|sus|add|m|M|[0-9]|[+°ø#b♯♭()])*(/[A-G][#b♯♭]?)?|N\.?C\.?)\]', '', 'g'
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- First sung line, matching getFirstLine in utils/helpers.ts: section markers on their own line
+-- ("[Verse 1]", "Chorus:", a bare "Chorus") are skipped, and "Chorus: words" gives the words
+CREATE OR REPLACE FUNCTION public.lyrics_first_line(lyrics TEXT)
+RETURNS TEXT AS $$
+  WITH lines AS (
+    SELECT n, btrim(line) AS line
+    FROM regexp_split_to_table(public.lyrics_plain_text(lyrics), E'\n') WITH ORDINALITY AS t(line, n)
+    WHERE btrim(line) !~* '^\[\s*(pre[\s-]?chorus|chorus|refrain|verse|stanza|bridge|intro|outro|ending|coda|tag|interlude)\s*(\d+[a-z]?)?\s*\]$'
+  ),
+  sung_lines AS (
+    SELECT n, btrim(regexp_replace(
+      line, '^(pre[\s-]?chorus|chorus|refrain|verse|stanza|bridge|intro|outro|ending|coda|tag|interlude)\s*(\d+[a-z]?)?\s*(:|$)', '', 'i'
+    )) AS line
+    FROM lines
+  )
+  SELECT coalesce((SELECT line FROM sung_lines WHERE line <> '' ORDER BY n LIMIT 1), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The first lines as installed apps have them cached, to find the songs that change below
+DROP TABLE IF EXISTS previous_first_lines;
+CREATE TEMP TABLE previous_first_lines AS SELECT id, first_line FROM public.songs;
+
+-- Generated columns can't be redefined in place, so both are dropped and added again
+ALTER TABLE public.songs DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE public.songs DROP COLUMN IF EXISTS first_line;
+
+ALTER TABLE public.songs
+  ADD COLUMN first_line TEXT
+  GENERATED ALWAYS AS (public.lyrics_first_line(lyrics)) STORED;
+
+ALTER TABLE public.songs
+  ADD COLUMN search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', public.lyrics_first_line(lyrics)), 'B') ||
+    setweight(to_tsvector('simple', public.lyrics_plain_text(lyrics)), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_songs_search_vector ON public.songs USING GIN (search_vector);
+
+-- Re-adding a generated column doesn't fire update triggers, so installed apps' incremental
+-- sync wouldn't see the new first lines. Touching the songs makes update_songs_updated_at move
+-- updated_at on; lyrics_updated_at stays, so lyrics saved on devices aren't downloaded again.
+UPDATE public.songs s
+SET updated_at = NOW()
+FROM previous_first_lines p
+WHERE p.id = s.id AND p.first_line IS DISTINCT FROM s.first_line;
+
+DROP TABLE previous_first_lines;
+
+COMMENT ON COLUMN public.songs.first_line IS 'First sung line of the lyrics without chords or section markers, shown in song lists without downloading full lyrics';
+COMMENT ON COLUMN public.songs.search_vector IS 'Title, first line and lyrics (without chords) for full-text search, weighted in that order';
+
+SELECT 'ChordPro lyrics support installed successfully! 🎵' as status;
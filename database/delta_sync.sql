@@ -0,0 +1,40 @@
+-- Incremental song sync support
+-- Run after setup_final.sql. Clients ask for songs whose updated_at is at or after their last
+-- sync watermark, and for tombstones of songs deleted since then.
+
+-- Speed up "changed since" queries
+CREATE INDEX IF NOT EXISTS idx_songs_updated_at ON public.songs(updated_at);
+
+-- Tombstones for deleted songs (ids are never reused because songs.id is SERIAL)
+CREATE TABLE IF NOT EXISTS public.song_tombstones (
+  song_id INTEGER PRIMARY KEY,
+  deleted_at TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_song_tombstones_deleted_at ON public.song_tombstones(deleted_at);
+
+-- Record a tombstone whenever a song is deleted
+CREATE OR REPLACE FUNCTION public.record_song_tombstone()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.song_tombstones (song_id, deleted_at)
+  VALUES (OLD.id, NOW())
+  ON CONFLICT (song_id) DO UPDATE SET deleted_at = EXCLUDED.deleted_at;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_song_tombstone ON public.songs;
+
+CREATE TRIGGER record_song_tombstone AFTER DELETE ON public.songs
+    FOR EACH ROW EXECUTE PROCEDURE public.record_song_tombstone();
+
+-- Everyone who can read songs can read tombstones
+ALTER TABLE public.song_tombstones ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Song tombstones are viewable by everyone" ON public.song_tombstones;
+CREATE POLICY "Song tombstones are viewable by everyone" ON public.song_tombstones FOR SELECT USING (true);
+
+COMMENT ON TABLE public.song_tombstones IS 'Ids of deleted songs, used by clients for incremental sync';
+
+SELECT 'Delta sync support installed successfully! 🎵' as status;
@@ -0,0 +1,49 @@
+-- Folder song counts in a single query
+-- Run after setup_final.sql. The folders screen reads song counts and the last change for all
+-- of a user's folders from folder_summaries instead of counting each folder separately.
+
+-- Speed up per-folder lookups and counts
+CREATE INDEX IF NOT EXISTS idx_song_folders_folder_id ON public.song_folders(folder_id);
+
+-- Folders record when they last changed (renames via update_updated_at_column from setup_final.sql)
+ALTER TABLE public.folders ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW();
+
+DROP TRIGGER IF EXISTS update_folders_updated_at ON public.folders;
+
+CREATE TRIGGER update_folders_updated_at BEFORE UPDATE ON public.folders
+    FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+-- Adding or removing a song counts as a change to the folder
+CREATE OR REPLACE FUNCTION public.touch_folder_on_song_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.folders
+  SET updated_at = NOW()
+  WHERE id = COALESCE(NEW.folder_id, OLD.folder_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_folder_on_song_change ON public.song_folders;
+
+CREATE TRIGGER touch_folder_on_song_change AFTER INSERT OR DELETE ON public.song_folders
+    FOR EACH ROW EXECUTE PROCEDURE public.touch_folder_on_song_change();
+
+-- One row per folder; security_invoker applies the folders/song_folders RLS policies of the
+-- caller, so users only ever see their own folders
+CREATE OR REPLACE VIEW public.folder_summaries
+WITH (security_invoker = true) AS
+SELECT
+  f.id AS folder_id,
+  f.user_id,
+  COUNT(sf.id)::INTEGER AS song_count,
+  GREATEST(f.updated_at, MAX(sf.created_at)) AS last_modified
+FROM public.folders f
+LEFT JOIN public.song_folders sf ON sf.folder_id = f.id
+GROUP BY f.id, f.user_id, f.updated_at;
+
+GRANT SELECT ON public.folder_summaries TO authenticated;
+
+COMMENT ON VIEW public.folder_summaries IS 'Song count and last change per folder, for the folders screen';
+
+SELECT 'Folder summaries installed successfully! 🎵' as status;
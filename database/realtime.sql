@@ -0,0 +1,15 @@
+-- Realtime sync for the personal library
+-- Run after setup_final.sql. Publishes favourites, folders and song_folders changes so other
+-- signed-in devices can update their cached library without a manual refresh.
+
+-- Add the library tables to the Supabase Realtime publication
+ALTER PUBLICATION supabase_realtime ADD TABLE public.favourites;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.folders;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.song_folders;
+
+-- Send the full old row on UPDATE (deletes still only carry the primary key under RLS)
+ALTER TABLE public.favourites REPLICA IDENTITY FULL;
+ALTER TABLE public.folders REPLICA IDENTITY FULL;
+ALTER TABLE public.song_folders REPLICA IDENTITY FULL;
+
+SELECT 'Realtime library sync enabled successfully! 📡' as status;
@@ -0,0 +1,58 @@
+-- Scripture references
+-- Run after song_index.sql. Each song lists the Bible passages it is based on, normalized the
+-- way the app's parser writes them (utils/scripture.ts):
+--   {"book": "Psalms", "chapter": 23, "verse_start": 1, "chapter_end": 23, "verse_end": 4}
+-- verse_start null means from the start of the chapter; verse_end null means to the end of
+-- chapter_end. Book names are the canonical English names, e.g. "1 Corinthians".
+
+ALTER TABLE public.songs
+  ADD COLUMN IF NOT EXISTS scripture_refs JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.songs DROP CONSTRAINT IF EXISTS songs_scripture_refs_is_array;
+ALTER TABLE public.songs
+  ADD CONSTRAINT songs_scripture_refs_is_array CHECK (jsonb_typeof(scripture_refs) = 'array');
+
+-- Reference searches look up songs with a passage in a given book
+CREATE INDEX IF NOT EXISTS idx_songs_scripture_refs ON public.songs USING GIN (scripture_refs jsonb_path_ops);
+
+COMMENT ON COLUMN public.songs.scripture_refs IS 'Bible passages the song is based on, for the scripture index and reference search';
+
+-- Passages for the sample songs in setup_final.sql
+UPDATE public.songs SET scripture_refs = '[
+  {"book": "Ephesians", "chapter": 2, "verse_start": 8, "chapter_end": 2, "verse_end": 9},
+  {"book": "1 Chronicles", "chapter": 17, "verse_start": 16, "chapter_end": 17, "verse_end": 17}
+]'::jsonb WHERE title = 'Amazing Grace';
+
+UPDATE public.songs SET scripture_refs = '[
+  {"book": "Psalms", "chapter": 8, "verse_start": 3, "chapter_end": 8, "verse_end": 9}
+]'::jsonb WHERE title = 'How Great Thou Art';
+
+UPDATE public.songs SET scripture_refs = '[
+  {"book": "Psalms", "chapter": 46, "verse_start": 10, "chapter_end": 46, "verse_end": 10}
+]'::jsonb WHERE title = 'Be Still My Soul';
+
+UPDATE public.songs SET scripture_refs = '[
+  {"book": "Isaiah", "chapter": 66, "verse_start": 12, "chapter_end": 66, "verse_end": 12},
+  {"book": "Philippians", "chapter": 4, "verse_start": 7, "chapter_end": 4, "verse_end": 7}
+]'::jsonb WHERE title = 'It Is Well With My Soul';
+
+UPDATE public.songs SET scripture_refs = '[
+  {"book": "Isaiah", "chapter": 6, "verse_start": 1, "chapter_end": 6, "verse_end": 3},
+  {"book": "Revelation", "chapter": 4, "verse_start": 8, "chapter_end": 4, "verse_end": 11}
+]'::jsonb WHERE title = 'Holy, Holy, Holy';
+
+UPDATE public.songs SET scripture_refs = '[
+  {"book": "Lamentations", "chapter": 3, "verse_start": 22, "chapter_end": 3, "verse_end": 23}
+]'::jsonb WHERE title = 'Great is Thy Faithfulness';
+
+UPDATE public.songs SET scripture_refs = '[
+  {"book": "John", "chapter": 3, "verse_start": 16, "chapter_end": 3, "verse_end": 16},
+  {"book": "Isaiah", "chapter": 53, "verse_start": 4, "chapter_end": 53, "verse_end": 5}
+]'::jsonb WHERE title = 'How Deep the Father''s Love';
+
+UPDATE public.songs SET scripture_refs = '[
+  {"book": "1 Corinthians", "chapter": 15, "verse_start": 55, "chapter_end": 15, "verse_end": 57},
+  {"book": "Acts", "chapter": 4, "verse_start": 12, "chapter_end": 4, "verse_end": 12}
+]'::jsonb WHERE title = 'In Christ Alone';
+
+SELECT 'Scripture references installed successfully! 🎵' as status;
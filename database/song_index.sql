@@ -0,0 +1,14 @@
+-- Lightweight song index
+-- Run after setup_final.sql. Song lists download only id, number, title and first line;
+-- lyrics are fetched one song at a time when a song is opened.
+
+-- First non-empty line of the lyrics, kept up to date by Postgres
+ALTER TABLE public.songs
+  ADD COLUMN IF NOT EXISTS first_line TEXT
+  GENERATED ALWAYS AS (
+    btrim(split_part(regexp_replace(lyrics, '^\s+', ''), E'\n', 1))
+  ) STORED;
+
+COMMENT ON COLUMN public.songs.first_line IS 'First line of the lyrics, shown in song lists without downloading full lyrics';
+
+SELECT 'Song index support installed successfully! 🎵' as status;
@@ -0,0 +1,108 @@
+-- Server-side song search
+-- Run after song_index.sql, topics.sql and scripture.sql. Until a device has downloaded the song
+-- index it searches here, so search_songs covers titles and full lyrics and returns ranked
+-- results a page at a time.
+
+-- Searchable text for each song; the 'simple' configuration keeps every word as written (no
+-- stemming, no stop words) so old hymn wording and half-typed words match predictably.
+-- Generated columns can't use first_line, so its expression is repeated here.
+ALTER TABLE public.songs
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', btrim(split_part(regexp_replace(lyrics, '^\s+', ''), E'\n', 1))), 'B') ||
+    setweight(to_tsvector('simple', coalesce(lyrics, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_songs_search_vector ON public.songs USING GIN (search_vector);
+
+COMMENT ON COLUMN public.songs.search_vector IS 'Title, first line and lyrics for full-text search, weighted in that order';
+
+-- A song's topics shaped like PostgREST's embedded song_topics(topic_id): [{"topic_id": 1}, ...]
+CREATE OR REPLACE FUNCTION public.embedded_song_topics(song_id INTEGER)
+RETURNS JSONB AS $$
+  SELECT coalesce(jsonb_agg(jsonb_build_object('topic_id', st.topic_id) ORDER BY st.topic_id), '[]'::jsonb)
+  FROM public.song_topics st
+  WHERE st.song_id = embedded_song_topics.song_id;
+$$ LANGUAGE sql STABLE;
+
+-- Ranked, paginated search. A number finds the songs whose numbers start with it (34 finds 34,
+-- 340, 341...); words must all appear in the song, the last one possibly half typed.
+-- The query is only ever used as a value, never as SQL or tsquery syntax, so any input is safe.
+-- Rows carry the same columns as the song index, topics embedded as in song_topics(topic_id).
+-- exclude_ids leaves out songs the caller already lists (passage matches for a Bible reference)
+-- so the total still counts every result once.
+-- The signature has changed before, and CREATE OR REPLACE can't change it
+DROP FUNCTION IF EXISTS public.search_songs(TEXT, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS public.search_songs(TEXT, INTEGER, INTEGER, INTEGER[]);
+
+CREATE FUNCTION public.search_songs(
+  search_query TEXT,
+  page_size INTEGER DEFAULT 50,
+  page_offset INTEGER DEFAULT 0,
+  exclude_ids INTEGER[] DEFAULT '{}'
+)
+RETURNS TABLE (
+  id INTEGER,
+  song_number INTEGER,
+  title TEXT,
+  first_line TEXT,
+  created_at TIMESTAMP WITHOUT TIME ZONE,
+  updated_at TIMESTAMP WITHOUT TIME ZONE,
+  lyrics_updated_at TIMESTAMP WITHOUT TIME ZONE,
+  scripture_refs JSONB,
+  song_topics JSONB,
+  rank REAL,
+  total_count BIGINT
+) AS $$
+DECLARE
+  trimmed_query TEXT := btrim(coalesce(search_query, ''));
+  words_query TSQUERY;
+BEGIN
+  IF trimmed_query = '' THEN
+    RETURN;
+  END IF;
+
+  IF trimmed_query ~ '^\d+$' THEN
+    RETURN QUERY
+    SELECT s.id, s.song_number, s.title, s.first_line, s.created_at, s.updated_at,
+           s.lyrics_updated_at, s.scripture_refs, public.embedded_song_topics(s.id),
+           CASE WHEN s.song_number::TEXT = trimmed_query THEN 1 ELSE 0.5 END::REAL,
+           COUNT(*) OVER ()
+    FROM public.songs s
+    WHERE s.song_number::TEXT LIKE trimmed_query || '%'
+      AND NOT s.id = ANY(coalesce(exclude_ids, '{}'))
+    ORDER BY s.song_number
+    LIMIT LEAST(GREATEST(page_size, 1), 200) OFFSET GREATEST(page_offset, 0);
+    RETURN;
+  END IF;
+
+  -- Each word becomes a quoted prefix lexeme ('amaz':* & 'grace':*), so punctuation in the
+  -- query can't change the meaning of the tsquery
+  SELECT string_agg(quote_literal(word) || ':*', ' & ')::TSQUERY
+  INTO words_query
+  FROM regexp_split_to_table(lower(trimmed_query), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+
+  IF words_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT s.id, s.song_number, s.title, s.first_line, s.created_at, s.updated_at,
+         s.lyrics_updated_at, s.scripture_refs, public.embedded_song_topics(s.id),
+         ts_rank_cd(s.search_vector, words_query),
+         COUNT(*) OVER ()
+  FROM public.songs s
+  WHERE s.search_vector @@ words_query
+    AND NOT s.id = ANY(coalesce(exclude_ids, '{}'))
+  ORDER BY 10 DESC, s.song_number
+  LIMIT LEAST(GREATEST(page_size, 1), 200) OFFSET GREATEST(page_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_songs(TEXT, INTEGER, INTEGER, INTEGER[]) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_songs(TEXT, INTEGER, INTEGER, INTEGER[]) IS 'Ranked full-text song search, a page at a time';
+
+SELECT 'Song search installed successfully! 🎵' as status;
@@ -0,0 +1,117 @@
+-- Curated topics and the topical index
+-- Run after delta_sync.sql. Topics are a fixed list maintained by the songbook editors; each
+-- song can be listed under any number of them.
+
+CREATE TABLE IF NOT EXISTS public.topics (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS public.song_topics (
+  id SERIAL PRIMARY KEY,
+  song_id INTEGER REFERENCES public.songs(id) ON DELETE CASCADE NOT NULL,
+  topic_id INTEGER REFERENCES public.topics(id) ON DELETE CASCADE NOT NULL,
+  UNIQUE(song_id, topic_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_song_topics_topic_id ON public.song_topics(topic_id);
+
+-- When the lyrics themselves last changed. Retagging bumps updated_at (below), so clients
+-- compare lyrics they have saved against this instead and only download them again when the
+-- words have changed
+ALTER TABLE public.songs ADD COLUMN IF NOT EXISTS lyrics_updated_at TIMESTAMP WITHOUT TIME ZONE;
+
+UPDATE public.songs SET lyrics_updated_at = updated_at WHERE lyrics_updated_at IS NULL;
+
+ALTER TABLE public.songs ALTER COLUMN lyrics_updated_at SET DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION public.update_lyrics_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.lyrics IS DISTINCT FROM OLD.lyrics THEN
+    NEW.lyrics_updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_songs_lyrics_updated_at ON public.songs;
+
+CREATE TRIGGER update_songs_lyrics_updated_at BEFORE UPDATE ON public.songs
+    FOR EACH ROW EXECUTE PROCEDURE public.update_lyrics_updated_at();
+
+COMMENT ON COLUMN public.songs.lyrics_updated_at IS 'When the lyrics last changed; updated_at also changes when a song is retagged';
+
+-- Tagging a song counts as changing it, so the incremental song sync picks up its new topics
+CREATE OR REPLACE FUNCTION public.touch_song_for_topics()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'DELETE' THEN
+    UPDATE public.songs SET updated_at = NOW() WHERE id = NEW.song_id;
+  END IF;
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.song_id <> NEW.song_id) THEN
+    UPDATE public.songs SET updated_at = NOW() WHERE id = OLD.song_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS touch_song_for_topics ON public.song_topics;
+
+CREATE TRIGGER touch_song_for_topics AFTER INSERT OR UPDATE OR DELETE ON public.song_topics
+    FOR EACH ROW EXECUTE PROCEDURE public.touch_song_for_topics();
+
+-- Topics are public, like the songs themselves; only editors change them (via the dashboard)
+ALTER TABLE public.topics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.song_topics ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Topics are viewable by everyone" ON public.topics;
+CREATE POLICY "Topics are viewable by everyone" ON public.topics FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Song topics are viewable by everyone" ON public.song_topics;
+CREATE POLICY "Song topics are viewable by everyone" ON public.song_topics FOR SELECT USING (true);
+
+-- Starting list of topics, in church year order followed by occasions
+INSERT INTO public.topics (name, sort_order) VALUES
+  ('Advent', 10),
+  ('Christmas', 20),
+  ('Lent', 30),
+  ('Easter', 40),
+  ('Pentecost', 50),
+  ('Praise & Adoration', 60),
+  ('Faith & Trust', 70),
+  ('Comfort & Peace', 80),
+  ('Communion', 90),
+  ('Baptism', 100),
+  ('Thanksgiving', 110),
+  ('Funeral', 120)
+ON CONFLICT (name) DO NOTHING;
+
+-- Topics for the sample songs in setup_final.sql
+INSERT INTO public.song_topics (song_id, topic_id)
+SELECT songs.id, topics.id
+FROM (VALUES
+  ('Amazing Grace', 'Faith & Trust'),
+  ('Amazing Grace', 'Funeral'),
+  ('How Great Thou Art', 'Praise & Adoration'),
+  ('Be Still My Soul', 'Comfort & Peace'),
+  ('Be Still My Soul', 'Funeral'),
+  ('It Is Well With My Soul', 'Comfort & Peace'),
+  ('It Is Well With My Soul', 'Faith & Trust'),
+  ('Holy, Holy, Holy', 'Praise & Adoration'),
+  ('Great is Thy Faithfulness', 'Faith & Trust'),
+  ('Great is Thy Faithfulness', 'Thanksgiving'),
+  ('How Deep the Father''s Love', 'Lent'),
+  ('How Deep the Father''s Love', 'Communion'),
+  ('In Christ Alone', 'Easter'),
+  ('In Christ Alone', 'Faith & Trust')
+) AS tagged(song_title, topic_name)
+JOIN public.songs ON songs.title = tagged.song_title
+JOIN public.topics ON topics.name = tagged.topic_name
+ON CONFLICT (song_id, topic_id) DO NOTHING;
+
+COMMENT ON TABLE public.topics IS 'Curated topics for the topical index';
+COMMENT ON TABLE public.song_topics IS 'Songs listed under each topic';
+
+SELECT 'Topics installed successfully! 🎵' as status;
@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { APP_CONFIG, DATA_SOURCE, ConnectivityStatus } from '../constants/Config';
+import { probeSupabase, getConnectivityStatus } from '../utils/network';
+
+interface UseConnectivityReturn {
+  status: ConnectivityStatus;
+  changedAt: Date;
+  checkNow: () => Promise<ConnectivityStatus>;
+}
+
+// Combines the OS network state with periodic reachability probes of Supabase
+export const useConnectivity = (): UseConnectivityReturn => {
+  const [status, setStatus] = useState<ConnectivityStatus>('online');
+  const [changedAt, setChangedAt] = useState<Date>(new Date());
+  const statusRef = useRef<ConnectivityStatus>('online');
+  const isConnectedRef = useRef<boolean | null>(null);
+  const probeRef = useRef<Promise<ConnectivityStatus> | null>(null);
+
+  const updateStatus = useCallback((nextStatus: ConnectivityStatus) => {
+    if (nextStatus === statusRef.current) return;
+    console.log('🌐 Connectivity changed:', statusRef.current, '->', nextStatus);
+    statusRef.current = nextStatus;
+    setStatus(nextStatus);
+    setChangedAt(new Date());
+  }, []);
+
+  const checkNow = useCallback(async (): Promise<ConnectivityStatus> => {
+    // Local data never needs the network
+    if (DATA_SOURCE === 'local') {
+      return 'online';
+    }
+
+    // No network interface at all - no point probing
+    if (isConnectedRef.current === false) {
+      updateStatus('offline');
+      return 'offline';
+    }
+
+    // Share a probe that is already running
+    if (probeRef.current) {
+      return probeRef.current;
+    }
+
+    probeRef.current = probeSupabase()
+      .then((probe) => {
+        const nextStatus = getConnectivityStatus(probe);
+        // The OS may have dropped the connection while we were probing
+        const finalStatus = isConnectedRef.current === false ? 'offline' : nextStatus;
+        updateStatus(finalStatus);
+        return finalStatus;
+      })
+      .finally(() => {
+        probeRef.current = null;
+      });
+
+    return probeRef.current;
+  }, [updateStatus]);
+
+  // React to OS network changes
+  useEffect(() => {
+    if (DATA_SOURCE === 'local') return;
+
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      isConnectedRef.current = state.isConnected;
+      if (state.isConnected === false) {
+        updateStatus('offline');
+      } else {
+        checkNow();
+      }
+    });
+    return unsubscribe;
+  }, [checkNow, updateStatus]);
+
+  // Periodic reachability probe
+  useEffect(() => {
+    const interval = setInterval(checkNow, APP_CONFIG.connectivityCheckInterval);
+    return () => clearInterval(interval);
+  }, [checkNow]);
+
+  // Re-check when the app returns to the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      if (nextState === 'active') {
+        checkNow();
+      }
+    });
+    return () => subscription.remove();
+  }, [checkNow]);
+
+  return { status, changedAt, checkNow };
+};
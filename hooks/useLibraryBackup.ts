@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { ApiResponse, BackupImportPlan } from '../constants/Config';
+import { useAuth } from '../contexts/AuthContext';
+import { useOffline } from '../contexts/OfflineContext';
+import { useSupabase } from './useSupabase';
+import { createBackup, getBackupFileName, parseBackup, planBackupImport } from '../utils/backup';
+import { pickBackupFile, saveBackupFile } from '../utils/backupFiles';
+import { createAppError, toAppError } from '../utils/errors';
+
+export interface BackupImportResult {
+  favouritesAdded: number;
+  foldersCreated: number;
+  songsAdded: number;
+  failed: number; // Changes the server refused; each one also shows a rollback notice
+}
+
+interface UseLibraryBackupReturn {
+  isWorking: boolean;
+  exportLibrary: () => Promise<ApiResponse<boolean>>;
+  // Pick a file and work out what importing it would change; data is null if the user cancelled
+  previewImport: () => Promise<ApiResponse<BackupImportPlan | null>>;
+  applyImport: (plan: BackupImportPlan) => Promise<BackupImportResult>;
+}
+
+// Export and restore the signed-in user's favourites and folders (see utils/backup.ts)
+export const useLibraryBackup = (): UseLibraryBackupReturn => {
+  const { user } = useAuth();
+  const { cachedSongs, cachedFavourites, cachedFolders, cachedFolderMemberships } = useOffline();
+  const { addFavourite, createFolder, addSongToFolder } = useSupabase();
+  const [isWorking, setIsWorking] = useState(false);
+
+  const exportLibrary = async (): Promise<ApiResponse<boolean>> => {
+    if (!user) {
+      return { data: false, error: createAppError('auth', 'Please sign in first.') };
+    }
+
+    setIsWorking(true);
+    try {
+      const backup = createBackup(user.id, cachedSongs, cachedFavourites, cachedFolders, cachedFolderMemberships);
+      await saveBackupFile(getBackupFileName(), JSON.stringify(backup, null, 2));
+      return { data: true, error: null };
+    } catch (err) {
+      return { data: false, error: toAppError(err, 'Failed to export your library') };
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const previewImport = async (): Promise<ApiResponse<BackupImportPlan | null>> => {
+    if (!user) {
+      return { data: null, error: createAppError('auth', 'Please sign in first.') };
+    }
+    if (cachedSongs.length === 0) {
+      return { data: null, error: createAppError('validation', 'Sync the song list before importing a backup.') };
+    }
+
+    setIsWorking(true);
+    try {
+      const contents = await pickBackupFile();
+      if (contents === null) {
+        return { data: null, error: null };
+      }
+
+      const { data: backup, error: parseError } = parseBackup(contents);
+      if (parseError || !backup) {
+        return { data: null, error: parseError };
+      }
+
+      const plan = planBackupImport(backup, user.id, cachedSongs, cachedFavourites, cachedFolders, cachedFolderMemberships);
+      return { data: plan, error: null };
+    } catch (err) {
+      return { data: null, error: toAppError(err, 'Failed to read the backup file') };
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Apply the plan one change at a time through the usual mutations, so offline imports queue
+  // and folder songs keep their order
+  const applyImport = async (plan: BackupImportPlan): Promise<BackupImportResult> => {
+    const result: BackupImportResult = { favouritesAdded: 0, foldersCreated: 0, songsAdded: 0, failed: 0 };
+
+    setIsWorking(true);
+    try {
+      for (const songId of plan.favouriteSongIds) {
+        const { error } = await addFavourite(songId);
+        if (error) result.failed++;
+        else result.favouritesAdded++;
+      }
+
+      for (const folderPlan of plan.folders) {
+        let folderId = folderPlan.existingFolderId;
+        if (folderId === null) {
+          const { data: folder, error } = await createFolder(folderPlan.name);
+          if (error || folder?.id === undefined) {
+            result.failed++;
+            continue;
+          }
+          folderId = folder.id;
+          result.foldersCreated++;
+        }
+
+        for (const songId of folderPlan.songIds) {
+          const { error } = await addSongToFolder(songId, folderId);
+          if (error) result.failed++;
+          else result.songsAdded++;
+        }
+      }
+    } finally {
+      setIsWorking(false);
+    }
+
+    return result;
+  };
+
+  return {
+    isWorking,
+    exportLibrary,
+    previewImport,
+    applyImport,
+  };
+};
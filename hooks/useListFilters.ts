@@ -0,0 +1,29 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { ListFilters, SongListId } from '../constants/Config';
+import { useOffline } from '../contexts/OfflineContext';
+import { DEFAULT_LIST_FILTERS } from '../utils/songSort';
+
+interface UseListFiltersReturn {
+  filters: ListFilters;
+  setFilters: (filters: ListFilters) => void;
+}
+
+// Sort and filter for one song list, saved with the rest of the settings
+export const useListFilters = (list: SongListId): UseListFiltersReturn => {
+  const { settings, updateSettings } = useOffline();
+  const savedFilters = settings.listFilters[list];
+  const filters = useMemo(() => ({ ...DEFAULT_LIST_FILTERS[list], ...savedFilters }), [list, savedFilters]);
+
+  // updateSettings changes identity with every render; keep setFilters stable for memoized headers
+  const latestRef = useRef({ settings, updateSettings });
+  latestRef.current = { settings, updateSettings };
+
+  const setFilters = useCallback((nextFilters: ListFilters) => {
+    const { settings: currentSettings, updateSettings: update } = latestRef.current;
+    update({ listFilters: { ...currentSettings.listFilters, [list]: nextFilters } }).catch(error => {
+      console.error('Error saving list filters:', error);
+    });
+  }, [list]);
+
+  return { filters, setFilters };
+};
@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { APP_CONFIG, ApiResponse, AppError } from '../constants/Config';
+import { useOffline } from '../contexts/OfflineContext';
+import { toAppError } from '../utils/errors';
+
+// Stale-while-revalidate queries shared by every screen. Each query key has one entry holding
+// the last result, its error and whether a request is in flight, so components using the same
+// key share one network request and the same loading/error state.
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<ApiResponse<T>>;
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: AppError | null;
+  isFetching: boolean;
+  updatedAt: number; // When data was last fetched successfully (0 = never)
+}
+
+interface QueryEntry<T> {
+  state: QueryState<T>;
+  listeners: Set<() => void>;
+  promise: Promise<void> | null;
+  controller: AbortController | null;
+  fetcher: QueryFetcher<T> | null; // Latest fetcher, used when the entry is invalidated
+}
+
+export interface UseOfflineCacheOptions<T> {
+  // Data already held on the device (usually from OfflineContext). When given it is what the
+  // query returns, and the fetcher is only used to refresh it in the background.
+  cachedData?: T;
+  // How long fetched data counts as fresh before mounting or focusing revalidates it
+  staleTime?: number;
+  // Keep showing the previous key's data while a new key loads (search-as-you-type)
+  keepPreviousData?: boolean;
+}
+
+export interface UseOfflineCacheReturn<T> {
+  data: T | undefined;
+  error: AppError | null;
+  isLoading: boolean; // Fetching with nothing to show yet
+  isFetching: boolean; // Any request in flight, including background revalidation
+  refetch: () => Promise<void>; // Always hit the network
+  revalidate: () => Promise<void>; // Hit the network only if the data is stale
+}
+
+const IDLE_STATE: QueryState<any> = { data: undefined, error: null, isFetching: false, updatedAt: 0 };
+
+const queries = new Map<string, QueryEntry<any>>();
+
+const getEntry = <T>(key: string): QueryEntry<T> => {
+  let entry = queries.get(key);
+  if (!entry) {
+    entry = { state: IDLE_STATE, listeners: new Set(), promise: null, controller: null, fetcher: null };
+    queries.set(key, entry);
+  }
+  return entry;
+};
+
+const setEntryState = <T>(entry: QueryEntry<T>, patch: Partial<QueryState<T>>): void => {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach(listener => listener());
+};
+
+// Run a query, joining the request already in flight for the same key
+const runQuery = <T>(key: string, fetcher: QueryFetcher<T>): Promise<void> => {
+  const entry = getEntry<T>(key);
+  entry.fetcher = fetcher;
+  if (entry.promise) {
+    return entry.promise;
+  }
+
+  const controller = new AbortController();
+  entry.controller = controller;
+  setEntryState(entry, { isFetching: true });
+
+  const promise = fetcher(controller.signal)
+    .then(result => {
+      // Results of cancelled requests are dropped
+      if (controller.signal.aborted) return;
+      if (result.error) {
+        setEntryState(entry, { error: result.error, isFetching: false });
+      } else {
+        setEntryState(entry, {
+          data: result.data ?? undefined,
+          error: null,
+          isFetching: false,
+          updatedAt: Date.now(),
+        });
+      }
+    })
+    .catch(err => {
+      if (controller.signal.aborted) return;
+      setEntryState(entry, { error: toAppError(err), isFetching: false });
+    })
+    .finally(() => {
+      if (entry.promise === promise) {
+        entry.promise = null;
+        entry.controller = null;
+      }
+    });
+
+  entry.promise = promise;
+  return promise;
+};
+
+// Abort a request nobody is waiting for any more, e.g. a search the user has typed past
+const cancelUnusedQuery = (key: string): void => {
+  const entry = queries.get(key);
+  if (!entry || entry.listeners.size > 0 || !entry.controller) return;
+
+  entry.controller.abort();
+  entry.promise = null;
+  entry.controller = null;
+  setEntryState(entry, { isFetching: false });
+};
+
+// Mark queries whose key starts with the prefix as stale; ones on screen refetch right away
+export const invalidateOfflineCache = (keyPrefix: string): void => {
+  queries.forEach((entry, key) => {
+    if (!key.startsWith(keyPrefix)) return;
+    setEntryState(entry, { updatedAt: 0 });
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      runQuery(key, entry.fetcher);
+    }
+  });
+};
+
+// Replace a query's data directly, e.g. after a mutation returned the new value
+export const setOfflineCacheData = <T>(key: string, data: T): void => {
+  setEntryState(getEntry<T>(key), { data, error: null, updatedAt: Date.now() });
+};
+
+// A null key disables the query (nothing to fetch yet, e.g. no user or an empty search)
+export const useOfflineCache = <T>(
+  key: string | null,
+  fetcher: QueryFetcher<T>,
+  options: UseOfflineCacheOptions<T> = {}
+): UseOfflineCacheReturn<T> => {
+  const { cachedData, staleTime = APP_CONFIG.queryStaleTime, keepPreviousData = false } = options;
+  const { isOffline } = useOffline();
+
+  // Fetchers from useSupabase change identity with every cache update; always call the latest
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const previousDataRef = useRef<T | undefined>(undefined);
+
+  const subscribe = useCallback((listener: () => void) => {
+    if (!key) return () => {};
+    const entry = getEntry<T>(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+      cancelUnusedQuery(key);
+    };
+  }, [key]);
+
+  const getSnapshot = useCallback(
+    (): QueryState<T> => (key ? getEntry<T>(key).state : IDLE_STATE),
+    [key]
+  );
+
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const refetch = useCallback((): Promise<void> => {
+    if (!key) return Promise.resolve();
+    return runQuery<T>(key, signal => fetcherRef.current(signal));
+  }, [key]);
+
+  const revalidate = useCallback((): Promise<void> => {
+    if (!key || isOffline) return Promise.resolve();
+    if (Date.now() - getEntry<T>(key).state.updatedAt < staleTime) return Promise.resolve();
+    return refetch();
+  }, [key, isOffline, staleTime, refetch]);
+
+  // Revalidate on mount, when the key changes and when we come back online
+  useEffect(() => {
+    revalidate();
+  }, [revalidate]);
+
+  let data = cachedData !== undefined ? cachedData : state.data;
+  if (data !== undefined) {
+    previousDataRef.current = data;
+  } else if (keepPreviousData) {
+    data = previousDataRef.current;
+  }
+
+  return {
+    data,
+    error: state.error,
+    isLoading: state.isFetching && data === undefined,
+    isFetching: state.isFetching,
+    refetch,
+    revalidate,
+  };
+};
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { SHARED_STORAGE_KEYS, getUserStorageKeys } from '../utils/cacheStorage';
+import { getRecentlyViewed, recordSongView, subscribeToRecentlyViewed } from '../utils/recentlyViewed';
+
+interface UseRecentlyViewedReturn {
+  viewedAt: Map<number, string>; // Song id -> when it was last opened
+  recordView: (songId: number) => void;
+}
+
+// The signed-in user's recently opened songs (see utils/recentlyViewed.ts)
+export const useRecentlyViewed = (): UseRecentlyViewedReturn => {
+  const { user } = useAuth();
+  const storageKey = user ? getUserStorageKeys(user.id).RECENTLY_VIEWED : SHARED_STORAGE_KEYS.RECENTLY_VIEWED;
+  const [viewedAt, setViewedAt] = useState<Map<number, string>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    setViewedAt(new Map());
+    getRecentlyViewed(storageKey).then(storedViews => {
+      if (!cancelled) setViewedAt(storedViews);
+    });
+
+    const unsubscribe = subscribeToRecentlyViewed((changedKey, changedViews) => {
+      if (changedKey === storageKey) setViewedAt(changedViews);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [storageKey]);
+
+  return {
+    viewedAt,
+    recordView: (songId) => {
+      recordSongView(storageKey, songId);
+    },
+  };
+};
@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { SHARED_STORAGE_KEYS, getUserStorageKeys } from '../utils/cacheStorage';
+import {
+  addToSearchHistory,
+  clearSearchHistory,
+  getSearchHistory,
+  removeFromSearchHistory,
+  subscribeToSearchHistory,
+} from '../utils/searchHistory';
+
+interface UseSearchHistoryReturn {
+  history: string[]; // Newest first
+  addQuery: (query: string) => void;
+  removeQuery: (query: string) => void;
+  clearHistory: () => void;
+}
+
+// The signed-in user's recent searches (see utils/searchHistory.ts)
+export const useSearchHistory = (): UseSearchHistoryReturn => {
+  const { user } = useAuth();
+  const storageKey = user ? getUserStorageKeys(user.id).SEARCH_HISTORY : SHARED_STORAGE_KEYS.SEARCH_HISTORY;
+  const [history, setHistory] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setHistory([]);
+    getSearchHistory(storageKey).then(storedHistory => {
+      if (!cancelled) setHistory(storedHistory);
+    });
+
+    const unsubscribe = subscribeToSearchHistory((changedKey, changedHistory) => {
+      if (changedKey === storageKey) setHistory(changedHistory);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [storageKey]);
+
+  return {
+    history,
+    addQuery: (query) => {
+      addToSearchHistory(storageKey, query);
+    },
+    removeQuery: (query) => {
+      removeFromSearchHistory(storageKey, query);
+    },
+    clearHistory: () => {
+      clearSearchHistory(storageKey);
+    },
+  };
+};
@@ -0,0 +1,122 @@
+import { useEffect, useMemo, useState } from 'react';
+import { SongSummary } from '../constants/Config';
+import { useOffline } from '../contexts/OfflineContext';
+import { useOfflineCache } from './useOfflineCache';
+import { useSupabase } from './useSupabase';
+import {
+  SearchMatch,
+  buildSearchIndex,
+  findSongsByNumberPrefix,
+  fuzzySearchIndex,
+  searchIndex,
+  suggestQuery,
+  tokenize,
+} from '../utils/songSearch';
+import { findSongsByScripture, parseScriptureReferences } from '../utils/scripture';
+import { getStoredLyrics, subscribeToLyricsChanges } from '../utils/lyricsCache';
+
+export interface UseSongSearchReturn {
+  results: SongSummary[] | null; // null when there's nothing to search for
+  matches: Map<number, SearchMatch>; // Why each text result matched, by song id
+  suggestion: string | null; // "Did you mean" query when nothing matched exactly
+}
+
+const NO_LYRICS = new Map<number, string>();
+const NO_MATCHES = new Map<number, SearchMatch>();
+
+// Stored lyrics are read once and shared by every list until they change
+let storedLyricsPromise: Promise<Map<number, string>> | null = null;
+
+const loadStoredLyrics = (): Promise<Map<number, string>> => {
+  if (!storedLyricsPromise) {
+    storedLyricsPromise = getStoredLyrics().catch(error => {
+      console.error('Error loading lyrics for search:', error);
+      return NO_LYRICS;
+    });
+  }
+  return storedLyricsPromise;
+};
+
+subscribeToLyricsChanges(() => {
+  storedLyricsPromise = null;
+});
+
+// Search a list of songs: numbers match song numbers, anything else goes through the
+// full-text index over titles and the lyrics stored on the device, falling back to typo-tolerant
+// matching on titles and first lines when nothing matches exactly. Only opened songs have their
+// lyrics on the device, so while online the server's full-lyrics search (search_songs) adds the
+// songs in the list it ranks after the local matches. Bible references such as "Ps 23:1-4" list
+// the songs based on an overlapping passage ahead of any text matches
+export const useSongSearch = (songs: SongSummary[], query: string): UseSongSearchReturn => {
+  const [lyricsById, setLyricsById] = useState(NO_LYRICS);
+  const { isOffline } = useOffline();
+  const { searchSongs } = useSupabase();
+  const trimmedQuery = query.trim();
+  const isNumberSearch = /^\d+$/.test(trimmedQuery);
+  const isTextSearch = trimmedQuery.length > 0 && !isNumberSearch;
+  const references = useMemo(
+    () => (isTextSearch ? parseScriptureReferences(trimmedQuery) : null),
+    [trimmedQuery, isTextSearch]
+  );
+
+  // Same key as the Songs tab's server search, so every list shares one request per query
+  const serverSearch = useOfflineCache(
+    isTextSearch && !isOffline ? `searchSongs:${trimmedQuery}` : null,
+    (signal) => searchSongs(trimmedQuery, signal)
+  );
+  const serverSongs = isTextSearch && !isOffline ? serverSearch.data?.songs : undefined;
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      loadStoredLyrics().then(lyrics => {
+        if (!cancelled) setLyricsById(lyrics);
+      });
+    };
+
+    load();
+    const unsubscribe = subscribeToLyricsChanges(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  // Only build the index once someone starts typing words
+  const index = useMemo(
+    () => (isTextSearch ? buildSearchIndex(songs, lyricsById) : null),
+    [songs, lyricsById, isTextSearch]
+  );
+
+  return useMemo((): UseSongSearchReturn => {
+    if (isNumberSearch) {
+      return { results: findSongsByNumberPrefix(songs, trimmedQuery), matches: NO_MATCHES, suggestion: null };
+    }
+    if (!index) {
+      return { results: null, matches: NO_MATCHES, suggestion: null };
+    }
+
+    const passageMatches = references ? findSongsByScripture(songs, references) : [];
+    const passageIds = new Set(passageMatches.map(song => song.id));
+
+    const exact = searchIndex(index, trimmedQuery);
+    const localIds = new Set([...passageIds, ...exact.map(match => match.song.id)]);
+
+    // Server matches are limited to this list and shown as the list has them
+    const songsById = new Map(songs.map(song => [song.id, song]));
+    const terms = tokenize(trimmedQuery);
+    const serverMatches: SearchMatch[] = (serverSongs || [])
+      .filter(song => songsById.has(song.id) && !localIds.has(song.id))
+      .map(song => ({ song: songsById.get(song.id)!, score: 0, field: 'lyrics', line: null, terms }));
+
+    // A reference is never a typo, so it only gets exact text matches
+    const isExact = exact.length > 0 || serverMatches.length > 0 || !!references;
+    const found = isExact ? [...exact, ...serverMatches] : fuzzySearchIndex(index, trimmedQuery);
+    const textMatches = found.filter(match => !passageIds.has(match.song.id));
+    return {
+      results: [...passageMatches, ...textMatches.map(match => match.song)],
+      matches: new Map(textMatches.map(match => [match.song.id, match])),
+      suggestion: isExact ? null : suggestQuery(index, trimmedQuery),
+    };
+  }, [songs, index, trimmedQuery, isNumberSearch, references, serverSongs]);
+};
@@ -1,23 +1,51 @@
-import { useState, useCallback } from 'react';
-import { supabaseClient, Song, Favourite, Folder, SongFolder, ApiResponse } from '../constants/Config';
+import { useState, useCallback, useRef } from 'react';
+import {
+  Song,
+  SongSearchPage,
+  SongSummary,
+  Topic,
+  Favourite,
+  Folder,
+  FolderSummary,
+  SongFolder,
+  ApiResponse,
+  AppError,
+  OutboxMutation,
+  RepositoryResult,
+  ServerRow,
+} from '../constants/Config';
 import { useAuth } from '../contexts/AuthContext';
 import { useOffline } from '../contexts/OfflineContext';
+import { isNetworkError } from '../utils/helpers';
+import { createAppError, toAppError, withRetry } from '../utils/errors';
+import { createTempFolderId, isTempId } from '../utils/outbox';
+import { getSongsWatermark, latestTimestamp, mergeSongChanges, pruneDeletedFavourites, pruneDeletedMemberships } from '../utils/songSync';
+import { getCachedLyrics, pinLyrics, removeLyrics, storeLyrics } from '../utils/lyricsCache';
+import { reconcileFolderMemberships, resolveFolderSongs, summarizeFolders } from '../utils/folderMemberships';
+import { songsRepository } from '../services/songsService';
+import { favouritesRepository } from '../services/favouritesService';
+import { foldersRepository } from '../services/foldersService';
+import { invalidateOfflineCache } from './useOfflineCache';
 
 interface UseSupabaseReturn {
   // Loading states
   loading: boolean;
-  error: string | null;
+  error: AppError | null;
   
   // Song operations
-  fetchSongs: () => Promise<ApiResponse<Song[]>>;
+  fetchSongs: (options?: { full?: boolean }) => Promise<ApiResponse<SongSummary[]>>;
   getSong: (id: number) => Promise<ApiResponse<Song>>;
-  searchSongs: (query: string) => Promise<ApiResponse<Song[]>>;
+  getSongLyrics: (song: SongSummary) => Promise<ApiResponse<string>>;
+  // Ranked server search over titles and lyrics; offset fetches the pages after the first
+  searchSongs: (query: string, signal?: AbortSignal, offset?: number) => Promise<ApiResponse<SongSearchPage>>;
+  fetchTopics: () => Promise<ApiResponse<Topic[]>>;
   
   // Favourite operations
   fetchFavourites: () => Promise<ApiResponse<Favourite[]>>;
   addFavourite: (songId: number) => Promise<ApiResponse<Favourite>>;
   removeFavourite: (songId: number) => Promise<ApiResponse<boolean>>;
   isFavourite: (songId: number) => boolean;
+  isFavouritePending: (songId: number) => boolean; // A toggle is still waiting for the server
   
   // Folder operations
   fetchFolders: () => Promise<ApiResponse<Folder[]>>;
@@ -28,18 +56,39 @@ interface UseSupabaseReturn {
   // Song-Folder operations
   addSongToFolder: (songId: number, folderId: number) => Promise<ApiResponse<SongFolder>>;
   removeSongFromFolder: (songId: number, folderId: number) => Promise<ApiResponse<boolean>>;
-  getFolderSongs: (folderId: number) => Promise<ApiResponse<Song[]>>;
-  getFolderSongCount: (folderId: number) => Promise<number>;
+  getFolderSongs: (folderId: number) => Promise<ApiResponse<SongSummary[]>>;
+  fetchFolderSummaries: () => Promise<ApiResponse<FolderSummary[]>>;
   
   // Sync operations
   syncAllData: () => Promise<ApiResponse<boolean>>;
 }
 
+// Folder contents and counts are served from shared queries; refresh them after a change
+const invalidateFolderContents = (folderId: number) => {
+  invalidateOfflineCache(`folderSongs:${folderId}`);
+  invalidateOfflineCache('folderSummaries:');
+};
+
 export const useSupabase = (): UseSupabaseReturn => {
   const { user } = useAuth();
-  const { updateCache, isOffline, cachedFavourites } = useOffline();
+  const {
+    updateCache,
+    isOffline,
+    cachedSongs,
+    songsWatermark,
+    cachedFavourites,
+    cachedFolders,
+    cachedFolderMemberships,
+    optimisticChanges,
+    enqueueMutation,
+    hasQueuedMutations,
+    applyOptimisticChange,
+    confirmOptimisticChange,
+    rollbackOptimisticChange,
+    checkConnectivity,
+  } = useOffline();
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AppError | null>(null);
 
   // Helper function to handle offline/online operations
   const executeWithFallback = async <T>(
@@ -57,254 +106,400 @@ export const useSupabase = (): UseSupabaseReturn => {
       if (offlineData !== undefined) {
         return { data: offlineData, error: null };
       }
-      return { data: null, error: err instanceof Error ? err.message : 'Unknown error' };
+      return { data: null, error: toAppError(err) };
+    }
+  };
+
+  // Changes go through the outbox while offline, while older changes are still queued (to keep
+  // them in order) or when they touch a folder that only exists locally so far
+  const shouldQueue = (folderId?: number): boolean =>
+    isOffline || hasQueuedMutations() || isTempId(folderId);
+
+  // Record a mutation in the offline outbox and report the locally applied result
+  const queueMutation = async <T>(mutation: OutboxMutation, localData: T): Promise<ApiResponse<T>> => {
+    try {
+      await enqueueMutation(mutation);
+      if (!isOffline) {
+        // A request just failed - let the connectivity monitor catch up
+        checkConnectivity();
+      }
+      return { data: localData, error: null };
+    } catch (err) {
+      const appError = toAppError(err, 'Failed to save change offline');
+      setError(appError);
+      return { data: null, error: appError };
+    }
+  };
+
+  // Show a change straight away and confirm it with the server. Connection failures hand it to
+  // the outbox; rejections undo it and show a notice.
+  const runOptimistic = async <T>(
+    mutation: OutboxMutation,
+    localData: T,
+    request: () => Promise<RepositoryResult<T | null>>,
+    fallbackMessage: string
+  ): Promise<ApiResponse<T>> => {
+    if (shouldQueue('folderId' in mutation ? mutation.folderId : undefined)) {
+      return queueMutation(mutation, localData);
+    }
+
+    setError(null);
+
+    let changeId: string;
+    try {
+      changeId = await applyOptimisticChange(mutation);
+    } catch (err) {
+      const appError = toAppError(err, fallbackMessage);
+      setError(appError);
+      return { data: null, error: appError };
+    }
+
+    setLoading(true);
+
+    try {
+      const { data, error: supabaseError } = await request();
+      if (supabaseError) {
+        throw supabaseError;
+      }
+      await confirmOptimisticChange(changeId, typeof data === 'object' ? (data as ServerRow | null) : null);
+      return { data: data ?? localData, error: null };
+    } catch (err) {
+      if (isNetworkError(err)) {
+        // The outbox takes over; the local change stays as it is
+        const queued = await queueMutation(mutation, localData);
+        await confirmOptimisticChange(changeId);
+        return queued;
+      }
+
+      const appError = toAppError(err, fallbackMessage);
+      // Inserting something that already exists means the change is already applied
+      if (appError.category === 'duplicate' && mutation.type !== 'createFolder') {
+        await confirmOptimisticChange(changeId);
+        return { data: localData, error: null };
+      }
+
+      await rollbackOptimisticChange(changeId, appError);
+      setError(appError);
+      return { data: null, error: appError };
+    } finally {
+      setLoading(false);
     }
   };
 
+  // The memoized mutations below read the latest runner and cache through this ref, so a caller
+  // holding an older mutation (like a backup import in progress) never works on stale state
+  const latestRef = useRef({ runOptimistic, cachedFavourites, cachedFolders });
+  latestRef.current = { runOptimistic, cachedFavourites, cachedFolders };
+
   // ===== SONG OPERATIONS =====
-  const fetchSongs = useCallback(async (): Promise<ApiResponse<Song[]>> => {
+  // Download only songs changed or deleted since the last sync watermark
+  const fetchSongChanges = useCallback(async (watermark: string): Promise<ApiResponse<SongSummary[]>> => {
+    const { data: changes, error: changesError } = await withRetry(() => songsRepository.fetchSongChanges(watermark));
+
+    if (changesError || !changes) {
+      return { data: null, error: toAppError(changesError, 'Failed to fetch song changes') };
+    }
+
+    const { songs: changedSongs, tombstones } = changes;
+    const songs = mergeSongChanges(cachedSongs, changedSongs, tombstones);
+
+    console.log('🔄 Song delta sync:', changedSongs.length, 'changed,', tombstones.length, 'deleted');
+
+    if (tombstones.length > 0) {
+      await removeLyrics(tombstones.map(tombstone => tombstone.song_id));
+    }
+
+    await updateCache({
+      songs,
+      ...(tombstones.length > 0 && {
+        favourites: pruneDeletedFavourites(cachedFavourites, tombstones),
+        folderMemberships: pruneDeletedMemberships(cachedFolderMemberships, tombstones),
+      }),
+      songsWatermark: latestTimestamp(
+        watermark,
+        getSongsWatermark(changedSongs),
+        ...tombstones.map(tombstone => tombstone.deleted_at)
+      ),
+    });
+
+    return { data: songs, error: null };
+  }, [updateCache, cachedSongs, cachedFavourites, cachedFolderMemberships]);
+
+  const fetchSongs = useCallback(async (options?: { full?: boolean }): Promise<ApiResponse<SongSummary[]>> => {
     setLoading(true);
     setError(null);
     
     try {
-      const { data, error: supabaseError } = await supabaseClient
-        .from('songs')
-        .select('*')
-        .order('song_number', { ascending: true });
+      // Incremental sync when we already have a catalog to merge into
+      if (!options?.full && songsWatermark && cachedSongs.length > 0) {
+        const deltaResult = await fetchSongChanges(songsWatermark);
+        if (!deltaResult.error) {
+          return deltaResult;
+        }
+        console.log('Song delta sync failed, falling back to full download:', deltaResult.error);
+      }
+
+      const { data, error: supabaseError } = await withRetry(() => songsRepository.fetchSongIndex());
 
       if (supabaseError) {
-        setError(supabaseError.message);
-        return { data: null, error: supabaseError.message };
+        const appError = toAppError(supabaseError, 'Failed to fetch songs');
+        setError(appError);
+        return { data: null, error: appError };
       }
 
       // Update cache
       if (data) {
-        await updateCache({ songs: data });
+        await updateCache({ songs: data, songsWatermark: getSongsWatermark(data) });
       }
 
       return { data: data || [], error: null };
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch songs';
-      setError(errorMessage);
-      return { data: null, error: errorMessage };
+      const appError = toAppError(err, 'Failed to fetch songs');
+      setError(appError);
+      return { data: null, error: appError };
     } finally {
       setLoading(false);
     }
-  }, [updateCache]);
+  }, [updateCache, songsWatermark, cachedSongs, fetchSongChanges]);
 
   const getSong = useCallback(async (id: number): Promise<ApiResponse<Song>> => {
     setLoading(true);
     setError(null);
     
     try {
-      const { data, error: supabaseError } = await supabaseClient
-        .from('songs')
-        .select('*')
-        .eq('id', id)
-        .single();
+      const { data, error: supabaseError } = await withRetry(() => songsRepository.getSong(id));
 
       if (supabaseError) {
-        setError(supabaseError.message);
-        return { data: null, error: supabaseError.message };
+        const appError = toAppError(supabaseError, 'Failed to fetch song');
+        setError(appError);
+        return { data: null, error: appError };
       }
 
       return { data, error: null };
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch song';
-      setError(errorMessage);
-      return { data: null, error: errorMessage };
+      const appError = toAppError(err, 'Failed to fetch song');
+      setError(appError);
+      return { data: null, error: appError };
     } finally {
       setLoading(false);
     }
   }, []);
 
-  const searchSongs = useCallback(async (query: string): Promise<ApiResponse<Song[]>> => {
+  // Lyrics are loaded one song at a time; songs that have been opened stay available offline
+  const getSongLyrics = useCallback(async (song: SongSummary): Promise<ApiResponse<string>> => {
+    const cached = await getCachedLyrics(song.id);
+    // Retagging a song changes updated_at but not the words (songs synced before
+    // lyrics_updated_at existed only have updated_at)
+    const lyricsUpdatedAt = song.lyrics_updated_at || song.updated_at;
+    const isFresh = cached !== null && (!lyricsUpdatedAt || cached.updatedAt === lyricsUpdatedAt);
+
+    if (cached && (isFresh || isOffline)) {
+      await pinLyrics(song.id);
+      return { data: cached.lyrics, error: null };
+    }
+
+    if (isOffline) {
+      return {
+        data: null,
+        error: createAppError('network', 'These lyrics have not been downloaded yet. Connect to the internet to open this song.'),
+      };
+    }
+
+    try {
+      const { data, error: supabaseError } = await withRetry(() => songsRepository.getLyrics(song.id));
+
+      if (supabaseError || !data) {
+        // Older lyrics are better than none
+        return cached
+          ? { data: cached.lyrics, error: null }
+          : { data: null, error: toAppError(supabaseError, 'Failed to load lyrics') };
+      }
+
+      await storeLyrics([{ songId: song.id, lyrics: data.lyrics, updatedAt: data.lyrics_updated_at || data.updated_at || null }], { pin: true });
+      return { data: data.lyrics, error: null };
+    } catch (err) {
+      if (cached) {
+        return { data: cached.lyrics, error: null };
+      }
+      return { data: null, error: toAppError(err, 'Failed to load lyrics') };
+    }
+  }, [isOffline]);
+
+  const searchSongs = useCallback(async (
+    query: string,
+    signal?: AbortSignal,
+    offset: number = 0
+  ): Promise<ApiResponse<SongSearchPage>> => {
     if (!query.trim()) {
-      return fetchSongs();
+      const { data, error: fetchError } = await fetchSongs();
+      return { data: data ? { songs: data, total: data.length } : null, error: fetchError };
     }
     
     setLoading(true);
     setError(null);
     
     try {
-      const { data, error: supabaseError } = await supabaseClient
-        .from('songs')
-        .select('*')
-        .or(`title.ilike.%${query}%,song_number.eq.${query}`);
+      const { data, error: supabaseError } = await songsRepository.searchSongs(query.trim(), offset, signal);
+
+      // Superseded by a newer search - nobody is waiting for this result
+      if (signal?.aborted) {
+        return { data: null, error: createAppError('cancelled') };
+      }
 
       if (supabaseError) {
-        setError(supabaseError.message);
-        return { data: null, error: supabaseError.message };
+        const appError = toAppError(supabaseError, 'Failed to search songs');
+        setError(appError);
+        return { data: null, error: appError };
       }
 
-      return { data: data || [], error: null };
+      return { data: data || { songs: [], total: 0 }, error: null };
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to search songs';
-      setError(errorMessage);
-      return { data: null, error: errorMessage };
+      const appError = toAppError(err, 'Failed to search songs');
+      setError(appError);
+      return { data: null, error: appError };
     } finally {
       setLoading(false);
     }
   }, [fetchSongs]);
 
-  // ===== FAVOURITE OPERATIONS =====
-  const fetchFavourites = useCallback(async (): Promise<ApiResponse<Favourite[]>> => {
-    if (!user) {
-      return { data: [], error: 'No user found' };
-    }
-    
+  // The topic list is small, so it is downloaded whole on every sync
+  const fetchTopics = useCallback(async (): Promise<ApiResponse<Topic[]>> => {
     setLoading(true);
     setError(null);
-    
+
     try {
-      const { data, error: supabaseError } = await supabaseClient
-        .from('favourites')
-        .select(`
-          *,
-          song:songs(*)
-        `)
-        .eq('user_id', user.id);
+      const { data, error: supabaseError } = await withRetry(() => songsRepository.fetchTopics());
 
       if (supabaseError) {
-        setError(supabaseError.message);
-        return { data: null, error: supabaseError.message };
+        const appError = toAppError(supabaseError, 'Failed to fetch topics');
+        setError(appError);
+        return { data: null, error: appError };
       }
 
-      // Update cache
       if (data) {
-        await updateCache({ favourites: data });
+        await updateCache({ topics: data });
       }
 
       return { data: data || [], error: null };
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch favourites';
-      setError(errorMessage);
-      return { data: null, error: errorMessage };
+      const appError = toAppError(err, 'Failed to fetch topics');
+      setError(appError);
+      return { data: null, error: appError };
     } finally {
       setLoading(false);
     }
-  }, [user, updateCache]);
+  }, [updateCache]);
 
-  const addFavourite = useCallback(async (songId: number): Promise<ApiResponse<Favourite>> => {
+  // ===== FAVOURITE OPERATIONS =====
+  const fetchFavourites = useCallback(async (): Promise<ApiResponse<Favourite[]>> => {
     if (!user) {
-      return { data: null, error: 'No user found' };
+      return { data: [], error: createAppError('auth', 'Please sign in first.') };
     }
     
     setLoading(true);
     setError(null);
     
     try {
-      // Check if already favourite to prevent duplicates
-      const existingFav = cachedFavourites.find(fav => fav.song_id === songId && fav.user_id === user.id);
-      if (existingFav) {
-        console.log('Song already in favourites:', songId);
-        return { data: existingFav, error: null };
-      }
-
-      const { data, error: supabaseError } = await supabaseClient
-        .from('favourites')
-        .insert({
-          user_id: user.id,
-          song_id: songId,
-        })
-        .select()
-        .single();
+      const { data, error: supabaseError } = await withRetry(() => favouritesRepository.fetchFavourites(user.id));
 
       if (supabaseError) {
-        setError(supabaseError.message);
-        return { data: null, error: supabaseError.message };
+        const appError = toAppError(supabaseError, 'Failed to fetch favourites');
+        setError(appError);
+        return { data: null, error: appError };
       }
 
-      console.log('❤️ Added to favourites:', songId, 'Data:', data);
-
-      // Immediately update cache with new favourite
-      const updatedFavourites = [...cachedFavourites, data];
-      await updateCache({ favourites: updatedFavourites });
+      // Update cache
+      if (data) {
+        await updateCache({ favourites: data });
+      }
 
-      return { data, error: null };
+      return { data: data || [], error: null };
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to add favourite';
-      setError(errorMessage);
-      return { data: null, error: errorMessage };
+      const appError = toAppError(err, 'Failed to fetch favourites');
+      setError(appError);
+      return { data: null, error: appError };
     } finally {
       setLoading(false);
     }
-  }, [user, cachedFavourites, updateCache]);
+  }, [user, updateCache]);
 
-  const removeFavourite = useCallback(async (songId: number): Promise<ApiResponse<boolean>> => {
+  const addFavourite = useCallback(async (songId: number): Promise<ApiResponse<Favourite>> => {
     if (!user) {
-      return { data: false, error: 'No user found' };
+      return { data: null, error: createAppError('auth', 'Please sign in first.') };
     }
-    
-    setLoading(true);
-    setError(null);
-    
-    try {
-      const { error: supabaseError } = await supabaseClient
-        .from('favourites')
-        .delete()
-        .eq('user_id', user.id)
-        .eq('song_id', songId);
 
-      if (supabaseError) {
-        setError(supabaseError.message);
-        return { data: false, error: supabaseError.message };
-      }
-
-      console.log('💔 Removed from favourites:', songId);
+    // Check if already favourite to prevent duplicates
+    const existingFav = latestRef.current.cachedFavourites.find(fav => fav.song_id === songId && fav.user_id === user.id);
+    if (existingFav) {
+      console.log('Song already in favourites:', songId);
+      return { data: existingFav, error: null };
+    }
 
-      // Immediately update cache by removing the favourite
-      const updatedFavourites = cachedFavourites.filter(
-        fav => !(fav.song_id === songId && fav.user_id === user.id)
-      );
-      await updateCache({ favourites: updatedFavourites });
+    return latestRef.current.runOptimistic<Favourite>(
+      { type: 'addFavourite', songId },
+      { user_id: user.id, song_id: songId, created_at: new Date().toISOString() },
+      () => favouritesRepository.addFavourite(user.id, songId),
+      'Failed to add favourite'
+    );
+  }, [user]);
 
-      return { data: true, error: null };
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to remove favourite';
-      setError(errorMessage);
-      return { data: false, error: errorMessage };
-    } finally {
-      setLoading(false);
+  const removeFavourite = useCallback(async (songId: number): Promise<ApiResponse<boolean>> => {
+    if (!user) {
+      return { data: false, error: createAppError('auth', 'Please sign in first.') };
     }
-  }, [user, cachedFavourites, updateCache]);
+
+    return latestRef.current.runOptimistic<boolean>(
+      { type: 'removeFavourite', songId },
+      true,
+      () => favouritesRepository.removeFavourite(user.id, songId),
+      'Failed to remove favourite'
+    );
+  }, [user]);
 
   const isFavourite = useCallback((songId: number): boolean => {
     if (!user) return false;
     return cachedFavourites.some(fav => fav.song_id === songId && fav.user_id === user.id);
   }, [user, cachedFavourites]);
 
+  const isFavouritePending = useCallback((songId: number): boolean =>
+    optimisticChanges.some(({ mutation }) =>
+      (mutation.type === 'addFavourite' || mutation.type === 'removeFavourite') && mutation.songId === songId
+    ), [optimisticChanges]);
+
   // ===== FOLDER OPERATIONS =====
   const fetchFolders = useCallback(async (): Promise<ApiResponse<Folder[]>> => {
     if (!user) {
-      return { data: [], error: 'No user found' };
+      return { data: [], error: createAppError('auth', 'Please sign in first.') };
     }
     
     setLoading(true);
     setError(null);
     
     try {
-      const { data, error: supabaseError } = await supabaseClient
-        .from('folders')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('name');
+      // Memberships come along so folder contents and counts work offline
+      const [foldersResult, membershipsResult] = await Promise.all([
+        withRetry(() => foldersRepository.fetchFolders(user.id)),
+        withRetry(() => foldersRepository.fetchFolderMemberships(user.id)),
+      ]);
+      const { data } = foldersResult;
+      const supabaseError = foldersResult.error || membershipsResult.error;
 
       if (supabaseError) {
-        setError(supabaseError.message);
-        return { data: null, error: supabaseError.message };
+        const appError = toAppError(supabaseError, 'Failed to fetch folders');
+        setError(appError);
+        return { data: null, error: appError };
       }
 
       // Update cache
       if (data) {
-        await updateCache({ folders: data });
+        await updateCache({ folders: data, folderMemberships: membershipsResult.data || [] });
       }
 
       return { data: data || [], error: null };
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch folders';
-      setError(errorMessage);
-      return { data: null, error: errorMessage };
+      const appError = toAppError(err, 'Failed to fetch folders');
+      setError(appError);
+      return { data: null, error: appError };
     } finally {
       setLoading(false);
     }
@@ -312,210 +507,157 @@ export const useSupabase = (): UseSupabaseReturn => {
 
   const createFolder = useCallback(async (name: string): Promise<ApiResponse<Folder>> => {
     if (!user) {
-      return { data: null, error: 'No user found' };
+      return { data: null, error: createAppError('auth', 'Please sign in first.') };
     }
-    
-    setLoading(true);
-    setError(null);
-    
-    try {
-      const { data, error: supabaseError } = await supabaseClient
-        .from('folders')
-        .insert({
-          user_id: user.id,
-          name: name.trim(),
-        })
-        .select()
-        .single();
 
-      if (supabaseError) {
-        setError(supabaseError.message);
-        return { data: null, error: supabaseError.message };
-      }
-
-      // Refresh folders cache
-      await fetchFolders();
+    const trimmedName = name.trim();
 
-      return { data, error: null };
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create folder';
-      setError(errorMessage);
-      return { data: null, error: errorMessage };
-    } finally {
-      setLoading(false);
+    // Mirror the folders_user_name_unique constraint so a duplicate never shows up locally
+    if (latestRef.current.cachedFolders.some(folder => folder.user_id === user.id && folder.name === trimmedName)) {
+      const appError = createAppError('duplicate', 'You already have a folder with this name.', { code: '23505' });
+      setError(appError);
+      return { data: null, error: appError };
     }
-  }, [user, fetchFolders]);
+
+    // The folder gets a temporary id until the server row replaces it
+    const folderId = createTempFolderId();
+    const result = await latestRef.current.runOptimistic<Folder>(
+      { type: 'createFolder', folderId, name: trimmedName },
+      { id: folderId, user_id: user.id, name: trimmedName, created_at: new Date().toISOString() },
+      () => foldersRepository.createFolder(user.id, trimmedName),
+      'Failed to create folder'
+    );
+    invalidateOfflineCache('folderSummaries:');
+    return result;
+  }, [user]);
 
   const updateFolder = useCallback(async (id: number, name: string): Promise<ApiResponse<Folder>> => {
     if (!user) {
-      return { data: null, error: 'No user found' };
+      return { data: null, error: createAppError('auth', 'Please sign in first.') };
     }
-    
-    setLoading(true);
-    setError(null);
-    
-    try {
-      const { data, error: supabaseError } = await supabaseClient
-        .from('folders')
-        .update({ name: name.trim() })
-        .eq('id', id)
-        .eq('user_id', user.id)
-        .select()
-        .single();
-
-      if (supabaseError) {
-        setError(supabaseError.message);
-        return { data: null, error: supabaseError.message };
-      }
-
-      // Refresh folders cache
-      await fetchFolders();
 
-      return { data, error: null };
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update folder';
-      setError(errorMessage);
-      return { data: null, error: errorMessage };
-    } finally {
-      setLoading(false);
-    }
-  }, [user, fetchFolders]);
+    const folder = latestRef.current.cachedFolders.find(cached => cached.id === id);
+    return latestRef.current.runOptimistic<Folder>(
+      { type: 'updateFolder', folderId: id, name: name.trim() },
+      { id, user_id: user.id, ...folder, name: name.trim() },
+      () => foldersRepository.updateFolder(user.id, id, name.trim()),
+      'Failed to update folder'
+    );
+  }, [user]);
 
   const deleteFolder = useCallback(async (id: number): Promise<ApiResponse<boolean>> => {
     if (!user) {
-      return { data: false, error: 'No user found' };
+      return { data: false, error: createAppError('auth', 'Please sign in first.') };
     }
-    
-    setLoading(true);
-    setError(null);
-    
-    try {
-      const { error: supabaseError } = await supabaseClient
-        .from('folders')
-        .delete()
-        .eq('id', id)
-        .eq('user_id', user.id);
-
-      if (supabaseError) {
-        setError(supabaseError.message);
-        return { data: false, error: supabaseError.message };
-      }
-
-      // Refresh folders cache
-      await fetchFolders();
 
-      return { data: true, error: null };
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete folder';
-      setError(errorMessage);
-      return { data: false, error: errorMessage };
-    } finally {
-      setLoading(false);
-    }
-  }, [user, fetchFolders]);
+    const result = await latestRef.current.runOptimistic<boolean>(
+      { type: 'deleteFolder', folderId: id },
+      true,
+      () => foldersRepository.deleteFolder(user.id, id),
+      'Failed to delete folder'
+    );
+    invalidateOfflineCache('folderSummaries:');
+    return result;
+  }, [user]);
 
   // ===== SONG-FOLDER OPERATIONS =====
   const addSongToFolder = useCallback(async (songId: number, folderId: number): Promise<ApiResponse<SongFolder>> => {
-    setLoading(true);
-    setError(null);
-    
-    try {
-      const { data, error: supabaseError } = await supabaseClient
-        .from('song_folders')
-        .insert({
-          song_id: songId,
-          folder_id: folderId,
-        })
-        .select()
-        .single();
+    const result = await latestRef.current.runOptimistic<SongFolder>(
+      { type: 'addSongToFolder', songId, folderId },
+      { song_id: songId, folder_id: folderId, created_at: new Date().toISOString() },
+      () => foldersRepository.addSongToFolder(songId, folderId),
+      'Failed to add song to folder'
+    );
+    invalidateFolderContents(folderId);
+    return result;
+  }, []);
 
-      if (supabaseError) {
-        setError(supabaseError.message);
-        return { data: null, error: supabaseError.message };
-      }
+  const removeSongFromFolder = useCallback(async (songId: number, folderId: number): Promise<ApiResponse<boolean>> => {
+    const result = await latestRef.current.runOptimistic<boolean>(
+      { type: 'removeSongFromFolder', songId, folderId },
+      true,
+      () => foldersRepository.removeSongFromFolder(songId, folderId),
+      'Failed to remove song from folder'
+    );
+    invalidateFolderContents(folderId);
+    return result;
+  }, []);
 
-      return { data, error: null };
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to add song to folder';
-      setError(errorMessage);
-      return { data: null, error: errorMessage };
-    } finally {
-      setLoading(false);
+  const getFolderSongs = useCallback(async (folderId: number): Promise<ApiResponse<SongSummary[]>> => {
+    // Without a connection, work the contents out from the cached memberships
+    const cachedFolderSongs = () => resolveFolderSongs(folderId, cachedFolderMemberships, cachedSongs);
+
+    if (isOffline) {
+      return { data: cachedFolderSongs(), error: null };
     }
-  }, []);
 
-  const removeSongFromFolder = useCallback(async (songId: number, folderId: number): Promise<ApiResponse<boolean>> => {
     setLoading(true);
     setError(null);
     
     try {
-      const { error: supabaseError } = await supabaseClient
-        .from('song_folders')
-        .delete()
-        .eq('song_id', songId)
-        .eq('folder_id', folderId);
+      const { data, error: supabaseError } = await withRetry(() => foldersRepository.getFolderSongs(folderId));
 
       if (supabaseError) {
-        setError(supabaseError.message);
-        return { data: false, error: supabaseError.message };
+        if (isNetworkError(supabaseError)) {
+          return { data: cachedFolderSongs(), error: null };
+        }
+        const appError = toAppError(supabaseError, 'Failed to fetch folder songs');
+        setError(appError);
+        return { data: null, error: appError };
       }
 
-      return { data: true, error: null };
+      // The folder screen shows the cached memberships, so bring them up to date
+      const memberships = reconcileFolderMemberships(cachedFolderMemberships, folderId, data || []);
+      if (memberships !== cachedFolderMemberships) {
+        await updateCache({ folderMemberships: memberships });
+      }
+
+      return { data: data || [], error: null };
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to remove song from folder';
-      setError(errorMessage);
-      return { data: false, error: errorMessage };
+      if (isNetworkError(err)) {
+        return { data: cachedFolderSongs(), error: null };
+      }
+      const appError = toAppError(err, 'Failed to fetch folder songs');
+      setError(appError);
+      return { data: null, error: appError };
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [updateCache, cachedFolderMemberships, cachedSongs, isOffline]);
 
-  const getFolderSongs = useCallback(async (folderId: number): Promise<ApiResponse<Song[]>> => {
-    setLoading(true);
-    setError(null);
-    
-    try {
-      const { data, error: supabaseError } = await supabaseClient
-        .from('song_folders')
-        .select(`
-          song:songs(*)
-        `)
-        .eq('folder_id', folderId);
+  const fetchFolderSummaries = useCallback(async (): Promise<ApiResponse<FolderSummary[]>> => {
+    if (!user) {
+      return { data: [], error: createAppError('auth', 'Please sign in first.') };
+    }
 
-      if (supabaseError) {
-        setError(supabaseError.message);
-        return { data: null, error: supabaseError.message };
-      }
+    // Count from the cached memberships when the server can't be reached
+    const cachedSummaries = () => summarizeFolders(
+      cachedFolders.filter(folder => folder.user_id === user.id),
+      cachedFolderMemberships
+    );
 
-      const songs = data?.map(item => item.song).filter(Boolean) || [];
-      return { data: songs, error: null };
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch folder songs';
-      setError(errorMessage);
-      return { data: null, error: errorMessage };
-    } finally {
-      setLoading(false);
+    if (isOffline) {
+      return { data: cachedSummaries(), error: null };
     }
-  }, []);
 
-  const getFolderSongCount = useCallback(async (folderId: number): Promise<number> => {
     try {
-      const { count, error: supabaseError } = await supabaseClient
-        .from('song_folders')
-        .select('*', { count: 'exact', head: true })
-        .eq('folder_id', folderId);
+      const { data, error: supabaseError } = await withRetry(() => foldersRepository.fetchFolderSummaries(user.id));
 
       if (supabaseError) {
-        console.error('Error getting folder song count:', supabaseError.message);
-        return 0;
+        if (isNetworkError(supabaseError)) {
+          return { data: cachedSummaries(), error: null };
+        }
+        return { data: null, error: toAppError(supabaseError, 'Failed to fetch folder song counts') };
       }
 
-      return count || 0;
+      return { data: data || [], error: null };
     } catch (err) {
-      console.error('Error getting folder song count:', err);
-      return 0;
+      if (isNetworkError(err)) {
+        return { data: cachedSummaries(), error: null };
+      }
+      return { data: null, error: toAppError(err, 'Failed to fetch folder song counts') };
     }
-  }, []);
+  }, [user, cachedFolders, cachedFolderMemberships, isOffline]);
 
   // ===== SYNC OPERATIONS =====
   const syncAllData = useCallback(async (): Promise<ApiResponse<boolean>> => {
@@ -524,40 +666,43 @@ export const useSupabase = (): UseSupabaseReturn => {
     
     try {
       // Fetch all data concurrently
-      const [songsResult, favouritesResult, foldersResult] = await Promise.all([
+      const [songsResult, topicsResult, favouritesResult, foldersResult] = await Promise.all([
         fetchSongs(),
+        fetchTopics(),
         fetchFavourites(),
         fetchFolders(),
       ]);
 
-      if (songsResult.error || favouritesResult.error || foldersResult.error) {
-        const errors = [songsResult.error, favouritesResult.error, foldersResult.error]
-          .filter(Boolean)
-          .join(', ');
-        setError(errors);
-        return { data: false, error: errors };
+      // Report the first failure; the others usually share its cause
+      const syncError = songsResult.error || topicsResult.error || favouritesResult.error || foldersResult.error;
+      if (syncError) {
+        setError(syncError);
+        return { data: false, error: syncError };
       }
 
       return { data: true, error: null };
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to sync data';
-      setError(errorMessage);
-      return { data: false, error: errorMessage };
+      const appError = toAppError(err, 'Failed to sync data');
+      setError(appError);
+      return { data: false, error: appError };
     } finally {
       setLoading(false);
     }
-  }, [fetchSongs, fetchFavourites, fetchFolders]);
+  }, [fetchSongs, fetchTopics, fetchFavourites, fetchFolders]);
 
   return {
     loading,
     error,
     fetchSongs,
     getSong,
+    getSongLyrics,
     searchSongs,
+    fetchTopics,
     fetchFavourites,
     addFavourite,
     removeFavourite,
     isFavourite,
+    isFavouritePending,
     fetchFolders,
     createFolder,
     updateFolder,
@@ -565,7 +710,7 @@ export const useSupabase = (): UseSupabaseReturn => {
     addSongToFolder,
     removeSongFromFolder,
     getFolderSongs,
-    getFolderSongCount,
+    fetchFolderSummaries,
     syncAllData,
   };
 };
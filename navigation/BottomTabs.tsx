@@ -1,10 +1,11 @@
 import React from 'react';
-import { Platform, TouchableOpacity } from 'react-native';
-import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
+import { Platform, TouchableOpacity, View } from 'react-native';
+import { createBottomTabNavigator, BottomTabBar } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
 import { useOffline } from '../contexts/OfflineContext';
 import { BottomTabParamList } from '../constants/Config';
 import { useNavigation } from '@react-navigation/native';
+import OfflineBanner from '../components/OfflineBanner';
 
 // Import screens
 import SongsScreen from '../screens/SongsScreen';
@@ -28,6 +29,13 @@ const BottomTabs: React.FC = () => {
 
   return (
     <Tab.Navigator
+      // Connectivity banner sits directly above the tab bar on every tab
+      tabBar={(props) => (
+        <>
+          <OfflineBanner />
+          <BottomTabBar {...props} />
+        </>
+      )}
       screenOptions={({ route }) => ({
         // Tab bar icons
         tabBarIcon: ({ focused, color, size }) => {
@@ -82,20 +90,55 @@ const BottomTabs: React.FC = () => {
         },
         headerShadowVisible: false,
         headerRight: () => (
-          <TouchableOpacity
-            style={{
-              marginRight: 16,
-              padding: 8,
-              borderRadius: 22,
-            }}
-            onPress={() => navigation.navigate('Settings')}
-          >
-            <Ionicons 
-              name="person-circle-outline" 
-              size={32} 
-              color={colors.active} 
-            />
-          </TouchableOpacity>
+          <View style={{ flexDirection: 'row', alignItems: 'center', marginRight: 16 }}>
+            {/* Jump to a hymn by number from the Songs tab */}
+            {route.name === 'Songs' && (
+              <TouchableOpacity
+                style={{
+                  padding: 8,
+                  borderRadius: 22,
+                }}
+                onPress={() => navigation.navigate('NumberPad')}
+                accessibilityLabel="Go to song number"
+              >
+                <Ionicons 
+                  name="keypad-outline" 
+                  size={28} 
+                  color={colors.active} 
+                />
+              </TouchableOpacity>
+            )}
+            {/* Find songs for a Bible passage from the Songs tab */}
+            {route.name === 'Songs' && (
+              <TouchableOpacity
+                style={{
+                  padding: 8,
+                  borderRadius: 22,
+                }}
+                onPress={() => navigation.navigate('ScriptureIndex')}
+                accessibilityLabel="Scripture index"
+              >
+                <Ionicons 
+                  name="book-outline" 
+                  size={28} 
+                  color={colors.active} 
+                />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={{
+                padding: 8,
+                borderRadius: 22,
+              }}
+              onPress={() => navigation.navigate('Settings')}
+            >
+              <Ionicons 
+                name="person-circle-outline" 
+                size={32} 
+                color={colors.active} 
+              />
+            </TouchableOpacity>
+          </View>
         ),
       })}
     >
@@ -8,6 +8,9 @@ import { RootStackParamList, AuthStackParamList } from '../constants/Config';
 // Import navigation and screens
 import BottomTabs from './BottomTabs';
 import LyricsScreen from '../screens/LyricsScreen';
+import NumberPadScreen from '../screens/NumberPadScreen';
+import TopicsScreen from '../screens/TopicsScreen';
+import ScriptureIndexScreen from '../screens/ScriptureIndexScreen';
 import FolderDetailScreen from '../screens/FolderDetailScreen';
 import SettingsScreen from '../screens/SettingsScreen';
 import LoginScreen from '../screens/LoginScreen';
@@ -125,6 +128,40 @@ const MainNavigator: React.FC = () => {
         }}
       />
       
+      {/* Hymn number keypad */}
+      <Stack.Screen 
+        name="NumberPad" 
+        component={NumberPadScreen}
+        options={{
+          headerShown: true,
+          title: 'Go to Number',
+          headerBackTitle: 'Back',
+          presentation: 'modal',
+        }}
+      />
+      
+      {/* Topical index */}
+      <Stack.Screen 
+        name="Topics" 
+        component={TopicsScreen}
+        options={{
+          headerShown: true,
+          title: 'Topical Index',
+          headerBackTitle: 'Songs',
+        }}
+      />
+      
+      {/* Scripture index */}
+      <Stack.Screen 
+        name="ScriptureIndex" 
+        component={ScriptureIndexScreen}
+        options={{
+          headerShown: true,
+          title: 'Scripture Index',
+          headerBackTitle: 'Songs',
+        }}
+      />
+      
       {/* Folder detail screen */}
       <Stack.Screen 
         name="FolderDetail" 
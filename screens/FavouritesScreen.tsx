@@ -9,10 +9,18 @@ import {
   Platform,
 } from 'react-native';
 import { useFocusEffect } from '@react-navigation/native';
-import { Song } from '../constants/Config';
+import { SongSummary } from '../constants/Config';
 import { useSupabase } from '../hooks/useSupabase';
+import { useOfflineCache } from '../hooks/useOfflineCache';
+import { useSongSearch } from '../hooks/useSongSearch';
+import { useSearchHistory } from '../hooks/useSearchHistory';
+import { useListFilters } from '../hooks/useListFilters';
+import { sortSongs } from '../utils/songSort';
+import { useAuth } from '../contexts/AuthContext';
 import { useOffline } from '../contexts/OfflineContext';
 import SearchBar from '../components/SearchBar';
+import SearchSuggestion from '../components/SearchSuggestion';
+import SortFilterSheet from '../components/SortFilterSheet';
 import SongCard from '../components/SongCard';
 import Button from '../components/Button';
 
@@ -21,13 +29,25 @@ interface FavouritesScreenProps {
 }
 
 const FavouritesScreen: React.FC<FavouritesScreenProps> = ({ navigation }) => {
-  const [favouriteSongs, setFavouriteSongs] = useState<Song[]>([]);
-  const [filteredSongs, setFilteredSongs] = useState<Song[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [refreshing, setRefreshing] = useState(false);
   
-  const { fetchFavourites, loading, error } = useSupabase();
-  const { getFavourites, getSongs, settings, isOffline } = useOffline();
+  const { user } = useAuth();
+  const { fetchFavourites, error } = useSupabase();
+  const { cachedFavourites, cachedSongs, settings, isOffline } = useOffline();
+  const { filters, setFilters } = useListFilters('favourites');
+
+  // Favourites render from the offline cache (kept current by mutations and realtime changes);
+  // the query refreshes that cache from the server when it goes stale
+  const favouritesQuery = useOfflineCache(
+    user ? `favourites:${user.id}` : null,
+    () => fetchFavourites(),
+    { cachedData: cachedFavourites }
+  );
+
+  // Connection problems just mean we're showing saved data; anything else is worth a banner
+  const loadError = favouritesQuery.error || error;
+  const showOfflineStatus = isOffline || loadError?.category === 'network';
 
   // Theme colors
   const colors = {
@@ -36,67 +56,37 @@ const FavouritesScreen: React.FC<FavouritesScreenProps> = ({ navigation }) => {
     subText: settings.theme === 'light' ? '#718096' : '#a0aec0',
   };
 
-  // Load favourites on screen focus
+  // Revalidate stale favourites when the tab is focused
+  const { revalidate: revalidateFavourites } = favouritesQuery;
   useFocusEffect(
     useCallback(() => {
-      loadFavourites();
-    }, [])
+      revalidateFavourites();
+    }, [revalidateFavourites])
   );
 
-  // Filter songs when search query changes
-  React.useEffect(() => {
-    filterSongs();
-  }, [searchQuery, favouriteSongs]);
-
-  const loadFavourites = async () => {
-    try {
-      // Try to fetch from Supabase first
-      const result = await fetchFavourites();
-      if (result.data) {
-        // Extract songs from favourites data
-        const songs = result.data
-          .map(fav => fav.song)
-          .filter((song): song is Song => song !== undefined);
-        setFavouriteSongs(songs);
-      } else {
-        // Fall back to cached data
-        loadCachedFavourites();
-      }
-    } catch (err) {
-      console.error('Error loading favourites:', err);
-      // Use cached data as fallback
-      loadCachedFavourites();
-    }
-  };
+  // Match favourite song IDs with song data, preferring the current catalog entry
+  const favouriteSongs = useMemo(() => (
+    (favouritesQuery.data || [])
+      .map(fav => cachedSongs.find(song => song.id === fav.song_id) || fav.song)
+      .filter((song): song is SongSummary => song !== undefined)
+  ), [favouritesQuery.data, cachedSongs]);
 
-  const loadCachedFavourites = () => {
-    const cachedFavourites = getFavourites();
-    const allSongs = getSongs();
-    
-    // Match favourite song IDs with actual song data
-    const songs = cachedFavourites
-      .map(fav => allSongs.find(song => song.id === fav.song_id))
-      .filter((song): song is Song => song !== undefined);
-    
-    setFavouriteSongs(songs);
-  };
+  const { addQuery } = useSearchHistory();
 
-  const filterSongs = () => {
-    if (!searchQuery.trim()) {
-      setFilteredSongs(favouriteSongs);
-      return;
-    }
+  // "Recent" here is when each song was favourited
+  const favouritedAt = useMemo(() => new Map(
+    (favouritesQuery.data || [])
+      .filter(fav => fav.created_at)
+      .map(fav => [fav.song_id, fav.created_at!])
+  ), [favouritesQuery.data]);
+  const sortedSongs = useMemo(
+    () => sortSongs(favouriteSongs, filters, favouritedAt),
+    [favouriteSongs, filters, favouritedAt]
+  );
 
-    const query = searchQuery.toLowerCase().trim();
-    const filtered = favouriteSongs.filter(
-      (song) =>
-        song.title.toLowerCase().includes(query) ||
-        song.song_number.toString().includes(query) ||
-        song.lyrics.toLowerCase().includes(query)
-    );
-    
-    setFilteredSongs(filtered);
-  };
+  // Numbers match song numbers; words are searched in titles and lyrics, best matches first
+  const search = useSongSearch(favouriteSongs, searchQuery);
+  const filteredSongs = search.results || sortedSongs;
 
   const handleRefresh = async () => {
     if (isOffline) {
@@ -106,7 +96,7 @@ const FavouritesScreen: React.FC<FavouritesScreenProps> = ({ navigation }) => {
     
     setRefreshing(true);
     try {
-      await loadFavourites();
+      await favouritesQuery.refetch();
     } catch (err) {
       Alert.alert('Error', 'Failed to refresh favourites');
     } finally {
@@ -114,20 +104,30 @@ const FavouritesScreen: React.FC<FavouritesScreenProps> = ({ navigation }) => {
     }
   };
 
-  const handleSongPress = (song: Song) => {
+  const handleSongPress = useCallback((song: SongSummary) => {
     navigation.navigate('Lyrics', { song });
+  }, [navigation]);
+
+  // Opening a search result remembers the search
+  const handleResultPress = (song: SongSummary) => {
+    if (searchQuery.trim()) {
+      addQuery(searchQuery);
+    }
+    handleSongPress(song);
   };
 
   const handleSearch = useCallback((query: string) => {
     setSearchQuery(query);
   }, []);
 
-  const renderSong = ({ item }: { item: Song }) => (
+  const renderSong = ({ item }: { item: SongSummary }) => (
     <SongCard
       song={item}
-      onPress={handleSongPress}
+      onPress={handleResultPress}
       showFavouriteButton={true}
       showNumber={true}
+      highlightQuery={search.matches.get(item.id)?.terms.join(' ')}
+      matchedLine={search.matches.get(item.id)?.line}
     />
   );
 
@@ -165,10 +165,27 @@ const FavouritesScreen: React.FC<FavouritesScreenProps> = ({ navigation }) => {
           placeholder="Search your favourite songs..."
           onSearch={handleSearch}
           value={searchQuery}
+          songs={favouriteSongs}
+          onSelectSong={handleSongPress}
         />
       </View>
+
+      {search.suggestion && (
+        <SearchSuggestion
+          suggestion={search.suggestion}
+          hasResults={filteredSongs.length > 0}
+          onPress={handleSearch}
+        />
+      )}
+
+      <SortFilterSheet
+        filters={filters}
+        onChange={setFilters}
+        recentLabel="Recently added"
+        isSearching={!!searchQuery.trim()}
+      />
       
-      {isOffline && (
+      {showOfflineStatus && (
         <View style={[styles.statusBanner, { backgroundColor: colors.subText + '15' }]}>
           <Text style={[styles.statusText, { color: colors.subText }]}>
             📱 Offline Mode - Showing cached data
@@ -177,7 +194,7 @@ const FavouritesScreen: React.FC<FavouritesScreenProps> = ({ navigation }) => {
       )}
       
     </View>
-  ), [searchQuery, isOffline, colors.subText, handleSearch, filteredSongs.length, favouriteSongs.length]);
+  ), [searchQuery, showOfflineStatus, colors.subText, handleSearch, filteredSongs.length, favouriteSongs.length, search.suggestion, favouriteSongs, handleSongPress, filters, setFilters]);
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -203,9 +220,9 @@ const FavouritesScreen: React.FC<FavouritesScreenProps> = ({ navigation }) => {
         getItemLayout={undefined}
       />
       
-      {error && (
+      {loadError && loadError.category !== 'network' && (
         <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error}</Text>
+          <Text style={styles.errorText}>{loadError.message}</Text>
         </View>
       )}
     </View>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
   View,
   FlatList,
@@ -9,10 +9,18 @@ import {
   Platform,
 } from 'react-native';
 import { useFocusEffect } from '@react-navigation/native';
-import { Song, Folder } from '../constants/Config';
+import { SongSummary, Folder } from '../constants/Config';
 import { useSupabase } from '../hooks/useSupabase';
+import { useOfflineCache } from '../hooks/useOfflineCache';
+import { useSongSearch } from '../hooks/useSongSearch';
+import { useSearchHistory } from '../hooks/useSearchHistory';
+import { useListFilters } from '../hooks/useListFilters';
+import { filterSongs, sortSongs } from '../utils/songSort';
 import { useOffline } from '../contexts/OfflineContext';
+import { resolveFolderSongs } from '../utils/folderMemberships';
 import SearchBar from '../components/SearchBar';
+import SearchSuggestion from '../components/SearchSuggestion';
+import SortFilterSheet from '../components/SortFilterSheet';
 import SongCard from '../components/SongCard';
 import FloatingButton from '../components/FloatingButton';
 import Button from '../components/Button';
@@ -28,12 +36,9 @@ interface FolderDetailScreenProps {
 
 const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigation }) => {
   const { folder } = route.params;
-  const [folderSongs, setFolderSongs] = useState<Song[]>([]);
-  const [filteredSongs, setFilteredSongs] = useState<Song[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [refreshing, setRefreshing] = useState(false);
   const [showAddSongs, setShowAddSongs] = useState(false);
-  const [allSongs, setAllSongs] = useState<Song[]>([]);
   
   const { 
     getFolderSongs, 
@@ -43,7 +48,32 @@ const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigati
     loading, 
     error 
   } = useSupabase();
-  const { getSongs, settings, isOffline } = useOffline();
+  const { cachedSongs, cachedFavourites, cachedFolderMemberships, settings, isOffline, lastRealtimeChange } = useOffline();
+  const { filters, setFilters } = useListFilters('folder');
+
+  // The folder is put together from cached memberships, so a setlist still opens at a service
+  // without signal and adding or removing a song shows up straight away (and is undone if the
+  // server refuses it). The server copy only refreshes the memberships in the background.
+  const cachedFolderSongs = useMemo(
+    () => (folder.id ? resolveFolderSongs(folder.id, cachedFolderMemberships, cachedSongs) : []),
+    [folder.id, cachedFolderMemberships, cachedSongs]
+  );
+  const folderSongsQuery = useOfflineCache(
+    folder.id ? `folderSongs:${folder.id}` : null,
+    () => getFolderSongs(folder.id!),
+    { cachedData: cachedFolderSongs }
+  );
+  const folderSongs = useMemo(() => folderSongsQuery.data || [], [folderSongsQuery.data]);
+
+  // Shares the songs index query with the Songs tab
+  const songsQuery = useOfflineCache('songs', () => fetchSongs(), {
+    cachedData: cachedSongs.length > 0 ? cachedSongs : undefined,
+  });
+  const allSongs = songsQuery.data || [];
+
+  // Connection problems just mean we're showing saved data; anything else is worth a banner
+  const loadError = folderSongsQuery.error || error;
+  const showOfflineStatus = isOffline || loadError?.category === 'network';
 
   // Set navigation title
   React.useEffect(() => {
@@ -59,61 +89,42 @@ const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigati
     subText: settings.theme === 'light' ? '#718096' : '#a0aec0',
   };
 
-  // Load folder songs on screen focus
+  // Revalidate stale folder contents when the screen is focused
+  const { revalidate: revalidateFolderSongs, refetch: refetchFolderSongs } = folderSongsQuery;
   useFocusEffect(
     useCallback(() => {
-      loadFolderSongs();
-      loadAllSongs();
-    }, [])
+      revalidateFolderSongs();
+    }, [revalidateFolderSongs])
   );
 
-  // Filter songs when search query changes
-  React.useEffect(() => {
-    filterSongs();
-  }, [searchQuery, folderSongs]);
+  const { addQuery } = useSearchHistory();
 
-  const loadFolderSongs = async () => {
-    if (!folder.id) return;
-    
-    try {
-      const result = await getFolderSongs(folder.id);
-      if (result.data) {
-        setFolderSongs(result.data);
-      }
-    } catch (err) {
-      console.error('Error loading folder songs:', err);
-    }
-  };
+  // "Recent" here is when each song was added to the folder
+  const addedAt = useMemo(() => new Map(
+    cachedFolderMemberships
+      .filter(membership => membership.folder_id === folder.id && membership.created_at)
+      .map(membership => [membership.song_id, membership.created_at!])
+  ), [cachedFolderMemberships, folder.id]);
+  const favouriteIds = useMemo(() => new Set(cachedFavourites.map(fav => fav.song_id)), [cachedFavourites]);
+  const listSongs = useMemo(
+    () => filterSongs(folderSongs, filters, favouriteIds),
+    [folderSongs, filters, favouriteIds]
+  );
+  const sortedSongs = useMemo(() => sortSongs(listSongs, filters, addedAt), [listSongs, filters, addedAt]);
 
-  const loadAllSongs = async () => {
-    try {
-      const result = await fetchSongs();
-      if (result.data) {
-        setAllSongs(result.data);
-      } else {
-        setAllSongs(getSongs());
-      }
-    } catch (err) {
-      setAllSongs(getSongs());
-    }
-  };
+  // Numbers match song numbers; words are searched in titles and lyrics, best matches first
+  const search = useSongSearch(listSongs, searchQuery);
+  const filteredSongs = search.results || sortedSongs;
 
-  const filterSongs = () => {
-    if (!searchQuery.trim()) {
-      setFilteredSongs(folderSongs);
-      return;
+  // Reload when this folder's contents change on another device (deletes only carry the row id)
+  React.useEffect(() => {
+    if (
+      lastRealtimeChange?.table === 'song_folders' &&
+      (lastRealtimeChange.eventType === 'DELETE' || lastRealtimeChange.new.folder_id === folder.id)
+    ) {
+      refetchFolderSongs();
     }
-
-    const query = searchQuery.toLowerCase().trim();
-    const filtered = folderSongs.filter(
-      (song) =>
-        song.title.toLowerCase().includes(query) ||
-        song.song_number.toString().includes(query) ||
-        song.lyrics.toLowerCase().includes(query)
-    );
-    
-    setFilteredSongs(filtered);
-  };
+  }, [lastRealtimeChange, folder.id, refetchFolderSongs]);
 
   const handleRefresh = async () => {
     if (isOffline) {
@@ -123,7 +134,7 @@ const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigati
     
     setRefreshing(true);
     try {
-      await loadFolderSongs();
+      await folderSongsQuery.refetch();
     } catch (err) {
       Alert.alert('Error', 'Failed to refresh folder contents');
     } finally {
@@ -131,8 +142,16 @@ const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigati
     }
   };
 
-  const handleSongPress = (song: Song) => {
+  const handleSongPress = useCallback((song: SongSummary) => {
     navigation.navigate('Lyrics', { song });
+  }, [navigation]);
+
+  // Opening a search result remembers the search
+  const handleResultPress = (song: SongSummary) => {
+    if (searchQuery.trim()) {
+      addQuery(searchQuery);
+    }
+    handleSongPress(song);
   };
 
   const handleSearch = useCallback((query: string) => {
@@ -140,11 +159,6 @@ const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigati
   }, []);
 
   const handleAddSongs = () => {
-    if (isOffline) {
-      Alert.alert('Offline', 'Cannot add songs while offline.');
-      return;
-    }
-
     // Get songs not already in this folder
     const availableSongs = allSongs.filter(song => 
       !folderSongs.some(folderSong => folderSong.id === song.id)
@@ -170,13 +184,12 @@ const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigati
     );
   };
 
-  const handleAddSongToFolder = async (song: Song) => {
+  const handleAddSongToFolder = async (song: SongSummary) => {
     if (!folder.id) return;
     
     try {
       const result = await addSongToFolder(song.id, folder.id);
       if (result.data) {
-        await loadFolderSongs();
         Alert.alert('Success', `"${song.title}" added to folder!`);
       }
     } catch (error) {
@@ -184,7 +197,7 @@ const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigati
     }
   };
 
-  const handleRemoveSongFromFolder = async (song: Song) => {
+  const handleRemoveSongFromFolder = async (song: SongSummary) => {
     if (!folder.id) return;
 
     Alert.alert(
@@ -199,7 +212,6 @@ const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigati
             try {
               const result = await removeSongFromFolder(song.id, folder.id!);
               if (result.data) {
-                await loadFolderSongs();
                 Alert.alert('Success', 'Song removed from folder!');
               }
             } catch (error) {
@@ -211,12 +223,14 @@ const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigati
     );
   };
 
-  const renderSong = ({ item }: { item: Song }) => (
+  const renderSong = ({ item }: { item: SongSummary }) => (
     <SongCard
       song={item}
-      onPress={handleSongPress}
+      onPress={handleResultPress}
       showFavouriteButton={true}
       showNumber={true}
+      highlightQuery={search.matches.get(item.id)?.terms.join(' ')}
+      matchedLine={search.matches.get(item.id)?.line}
     />
   );
 
@@ -230,7 +244,7 @@ const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigati
           ? 'Try adjusting your search terms'
           : `Add songs to "${folder.name}" to organize your music`}
       </Text>
-      {!searchQuery && !isOffline && (
+      {!searchQuery && (
         <Button
           title="Add Songs"
           onPress={handleAddSongs}
@@ -242,7 +256,7 @@ const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigati
       )}
       {isOffline && (
         <Text style={[styles.offlineText, { color: colors.subText }]}>
-          📱 Offline mode - Cannot modify folder
+          📱 Offline mode - Changes will sync once you reconnect
         </Text>
       )}
     </View>
@@ -255,10 +269,28 @@ const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigati
           placeholder={`Search in ${folder.name}...`}
           onSearch={handleSearch}
           value={searchQuery}
+          songs={folderSongs}
+          onSelectSong={handleSongPress}
         />
       </View>
+
+      {search.suggestion && (
+        <SearchSuggestion
+          suggestion={search.suggestion}
+          hasResults={filteredSongs.length > 0}
+          onPress={handleSearch}
+        />
+      )}
+
+      <SortFilterSheet
+        filters={filters}
+        onChange={setFilters}
+        recentLabel="Recently added"
+        showFavouritesFilter
+        isSearching={!!searchQuery.trim()}
+      />
       
-      {isOffline && (
+      {showOfflineStatus && (
         <View style={[styles.statusBanner, { backgroundColor: colors.subText + '15' }]}>
           <Text style={[styles.statusText, { color: colors.subText }]}>
             📱 Offline Mode - Showing cached data
@@ -267,7 +299,7 @@ const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigati
       )}
       
     </View>
-  ), [searchQuery, isOffline, colors.subText, handleSearch, filteredSongs.length, folderSongs.length, folder.name]);
+  ), [searchQuery, showOfflineStatus, colors.subText, handleSearch, filteredSongs.length, folderSongs.length, folder.name, search.suggestion, folderSongs, handleSongPress, filters, setFilters]);
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -294,7 +326,7 @@ const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigati
       />
       
       {/* Floating Action Button for adding songs */}
-      {!isOffline && folderSongs.length > 0 && (
+      {folderSongs.length > 0 && (
         <FloatingButton
           icon="add"
           onPress={handleAddSongs}
@@ -302,9 +334,9 @@ const FolderDetailScreen: React.FC<FolderDetailScreenProps> = ({ route, navigati
         />
       )}
       
-      {error && (
+      {loadError && loadError.category !== 'network' && (
         <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error}</Text>
+          <Text style={styles.errorText}>{loadError.message}</Text>
         </View>
       )}
     </View>
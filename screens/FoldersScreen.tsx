@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
   View,
   FlatList,
@@ -8,9 +8,12 @@ import {
   Alert,
 } from 'react-native';
 import { useFocusEffect } from '@react-navigation/native';
-import { Folder } from '../constants/Config';
+import { Folder, FolderSummary } from '../constants/Config';
 import { useSupabase } from '../hooks/useSupabase';
+import { invalidateOfflineCache, useOfflineCache } from '../hooks/useOfflineCache';
+import { useAuth } from '../contexts/AuthContext';
 import { useOffline } from '../contexts/OfflineContext';
+import { summarizeFolders } from '../utils/folderMemberships';
 import FolderCard from '../components/FolderCard';
 import FloatingButton from '../components/FloatingButton';
 import Button from '../components/Button';
@@ -21,13 +24,43 @@ interface FoldersScreenProps {
 }
 
 const FoldersScreen: React.FC<FoldersScreenProps> = ({ navigation }) => {
-  const [folders, setFolders] = useState<Folder[]>([]);
-  const [folderSongCounts, setFolderSongCounts] = useState<{[key: number]: number}>({});
   const [refreshing, setRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   
-  const { fetchFolders, createFolder, getFolderSongCount, loading, error } = useSupabase();
-  const { getFolders, settings, isOffline } = useOffline();
+  const { user } = useAuth();
+  const { fetchFolders, fetchFolderSummaries, error } = useSupabase();
+  const { cachedFolders, cachedFolderMemberships, settings, isOffline, lastRealtimeChange } = useOffline();
+
+  // Folders render from the offline cache; the query refreshes it from the server when stale
+  const foldersQuery = useOfflineCache(
+    user ? `folders:${user.id}` : null,
+    () => fetchFolders(),
+    { cachedData: cachedFolders }
+  );
+  const folders = useMemo(() => foldersQuery.data || [], [foldersQuery.data]);
+
+  // Song counts and last changes for every folder in one request; offline they are worked out
+  // from the cached folder memberships
+  const cachedSummaries = useMemo(
+    () => summarizeFolders(folders, cachedFolderMemberships),
+    [folders, cachedFolderMemberships]
+  );
+  const summariesQuery = useOfflineCache(
+    user ? `folderSummaries:${user.id}` : null,
+    () => fetchFolderSummaries(),
+    { cachedData: isOffline ? cachedSummaries : undefined }
+  );
+  const folderSummaries = useMemo(() => {
+    const summaries: {[key: number]: FolderSummary} = {};
+    (summariesQuery.data || cachedSummaries).forEach(summary => {
+      summaries[summary.folder_id] = summary;
+    });
+    return summaries;
+  }, [summariesQuery.data, cachedSummaries]);
+
+  // Connection problems just mean we're showing saved data; anything else is worth a banner
+  const loadError = foldersQuery.error || error;
+  const showOfflineStatus = isOffline || loadError?.category === 'network';
 
   // Theme colors
   const colors = {
@@ -36,67 +69,25 @@ const FoldersScreen: React.FC<FoldersScreenProps> = ({ navigation }) => {
     subText: settings.theme === 'light' ? '#718096' : '#a0aec0',
   };
 
-  // Load folders on screen focus
+  // Revalidate stale folders when the tab is focused
+  const { revalidate: revalidateFolders } = foldersQuery;
+  const { revalidate: revalidateSummaries } = summariesQuery;
   useFocusEffect(
     useCallback(() => {
-      loadFolders();
-    }, [])
+      revalidateFolders();
+      revalidateSummaries();
+    }, [revalidateFolders, revalidateSummaries])
   );
 
-  const loadFolders = async () => {
-    try {
-      // Try to fetch from Supabase first
-      const result = await fetchFolders();
-      if (result.data) {
-        setFolders(result.data);
-        // Load song counts for each folder
-        await loadFolderSongCounts(result.data);
-      } else {
-        // Fall back to cached data
-        const cachedFolders = getFolders();
-        setFolders(cachedFolders);
-        await loadFolderSongCounts(cachedFolders);
-      }
-    } catch (err) {
-      console.error('Error loading folders:', err);
-      // Use cached data as fallback
-      const cachedFolders = getFolders();
-      setFolders(cachedFolders);
-      await loadFolderSongCounts(cachedFolders);
-    }
-  };
-
-  const loadFolderSongCounts = async (foldersList: Folder[]) => {
-    if (isOffline) {
-      // In offline mode, we can't get accurate counts, so set to 0
-      const counts: {[key: number]: number} = {};
-      foldersList.forEach(folder => {
-        if (folder.id) {
-          counts[folder.id] = 0;
-        }
-      });
-      setFolderSongCounts(counts);
-      return;
+  // Folder contents changed on another device; folder renames and deletes arrive through the cache
+  React.useEffect(() => {
+    if (lastRealtimeChange?.table === 'song_folders') {
+      invalidateOfflineCache('folderSummaries:');
     }
+  }, [lastRealtimeChange]);
 
-    const counts: {[key: number]: number} = {};
-    
-    // Load song counts for each folder concurrently
-    await Promise.all(
-      foldersList.map(async (folder) => {
-        if (folder.id) {
-          try {
-            const count = await getFolderSongCount(folder.id);
-            counts[folder.id] = count;
-          } catch (err) {
-            console.error(`Error getting song count for folder ${folder.id}:`, err);
-            counts[folder.id] = 0;
-          }
-        }
-      })
-    );
-    
-    setFolderSongCounts(counts);
+  const loadFolders = async () => {
+    await Promise.all([foldersQuery.refetch(), summariesQuery.refetch()]);
   };
 
   const handleRefresh = async () => {
@@ -120,11 +111,6 @@ const FoldersScreen: React.FC<FoldersScreenProps> = ({ navigation }) => {
   };
 
   const handleCreateFolder = () => {
-    if (isOffline) {
-      Alert.alert('Offline', 'Cannot create folders while offline.');
-      return;
-    }
-
     setShowCreateModal(true);
   };
 
@@ -137,14 +123,15 @@ const FoldersScreen: React.FC<FoldersScreenProps> = ({ navigation }) => {
   };
 
   const renderFolder = ({ item }: { item: Folder }) => {
-    const songCount = item.id ? (folderSongCounts[item.id] || 0) : 0;
+    const summary = item.id ? folderSummaries[item.id] : undefined;
     
     return (
       <FolderCard
         folder={item}
         onPress={handleFolderPress}
         showMenuButton={true}
-        songCount={songCount}
+        songCount={summary?.song_count || 0}
+        lastModified={summary?.last_modified}
         onFolderUpdate={loadFolders} // Refresh folder list when folder is updated or deleted
       />
     );
@@ -158,19 +145,17 @@ const FoldersScreen: React.FC<FoldersScreenProps> = ({ navigation }) => {
       <Text style={[styles.emptySubtitle, { color: colors.subText }]}>
         Create folders to organize your favourite songs by theme, occasion, or any way you prefer
       </Text>
-      {!isOffline && (
-        <Button
-          title="Create Your First Folder"
-          onPress={handleCreateFolder}
-          loading={loading}
-          icon="folder-outline"
-          variant="primary"
-          size="medium"
-        />
-      )}
+      <Button
+        title="Create Your First Folder"
+        onPress={handleCreateFolder}
+        loading={foldersQuery.isLoading}
+        icon="folder-outline"
+        variant="primary"
+        size="medium"
+      />
       {isOffline && (
         <Text style={[styles.offlineText, { color: colors.subText }]}>
-          📱 Offline mode - Cannot create folders
+          📱 Offline mode - New folders will sync once you reconnect
         </Text>
       )}
     </View>
@@ -178,7 +163,7 @@ const FoldersScreen: React.FC<FoldersScreenProps> = ({ navigation }) => {
 
   const renderHeader = () => (
     <View style={styles.header}>
-      {isOffline && (
+      {showOfflineStatus && (
         <View style={styles.offlineBanner}>
           <Text style={[styles.offlineBannerText, { color: colors.subText }]}>
             📱 Offline - Showing cached folders
@@ -214,17 +199,15 @@ const FoldersScreen: React.FC<FoldersScreenProps> = ({ navigation }) => {
       />
       
       {/* Floating Action Button for creating folders */}
-      {!isOffline && (
-        <FloatingButton
-          icon="add"
-          onPress={handleCreateFolder}
-          position="bottom-right"
-        />
-      )}
+      <FloatingButton
+        icon="add"
+        onPress={handleCreateFolder}
+        position="bottom-right"
+      />
       
-      {error && (
+      {loadError && loadError.category !== 'network' && (
         <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error}</Text>
+          <Text style={styles.errorText}>{loadError.message}</Text>
         </View>
       )}
       
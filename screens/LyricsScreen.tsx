@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -7,18 +7,25 @@ import {
   Platform,
   Dimensions,
   Alert,
+  ActivityIndicator,
+  TouchableOpacity,
 } from 'react-native';
-import { Song } from '../constants/Config';
+import { Ionicons } from '@expo/vector-icons';
+import { AppError, SongSummary } from '../constants/Config';
 import { useSupabase } from '../hooks/useSupabase';
+import { useRecentlyViewed } from '../hooks/useRecentlyViewed';
 import { useOffline } from '../contexts/OfflineContext';
+import { createAppError } from '../utils/errors';
+import { hasChords } from '../utils/chordPro';
 import { HeartButton, FolderButton } from '../components/FloatingButton';
 import WebToolbar from '../components/WebToolbar';
+import LyricsSections from '../components/LyricsSections';
 import Button from '../components/Button';
 
 interface LyricsScreenProps {
   route: {
     params: {
-      song: Song;
+      song: SongSummary;
     };
   };
   navigation: any;
@@ -28,18 +35,38 @@ const LyricsScreen: React.FC<LyricsScreenProps> = ({ route, navigation }) => {
   const { song } = route.params;
   const { 
     isFavourite, 
+    isFavouritePending,
     addFavourite, 
     removeFavourite, 
     fetchFolders, 
-    addSongToFolder 
+    addSongToFolder,
+    getSongLyrics,
   } = useSupabase();
-  const { settings, isOffline } = useOffline();
+  const { settings, updateSettings, isOffline, getFolders } = useOffline();
+  const { recordView } = useRecentlyViewed();
+  const [lyrics, setLyrics] = useState<string | null>(null);
+  const [lyricsError, setLyricsError] = useState<AppError | null>(null);
   
   const isCurrentlyFavourite = isFavourite(song.id);
   
   // Get current font size from settings
   const currentFontSize = Math.max(settings?.fontSize || 16, 12);
 
+  // The singers/musicians toggle only appears on songs written with chords
+  const songHasChords = useMemo(() => (lyrics ? hasChords(lyrics) : false), [lyrics]);
+  const showChords = settings.lyricsView === 'musicians';
+
+  // updateSettings changes identity with every render; keep the header's toggle stable
+  const updateSettingsRef = useRef(updateSettings);
+  updateSettingsRef.current = updateSettings;
+
+  // Singers view hides chords for the congregation; musicians view shows them above the words
+  const handleToggleChords = useCallback(() => {
+    updateSettingsRef.current({ lyricsView: showChords ? 'singers' : 'musicians' }).catch(error => {
+      console.error('Error saving lyrics view:', error);
+    });
+  }, [showChords]);
+
   // Set navigation title - Hide on web since we use WebToolbar
   useEffect(() => {
     if (Platform.OS === 'web') {
@@ -52,9 +79,56 @@ const LyricsScreen: React.FC<LyricsScreenProps> = ({ route, navigation }) => {
         headerTitleStyle: {
           fontSize: Math.min(18, Math.max(settings?.fontSize || 16, 12) + 1),
         },
+        headerRight: () => (
+          <View style={styles.headerButtons}>
+            {songHasChords && (
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={handleToggleChords}
+                accessibilityLabel={showChords ? 'Hide chords' : 'Show chords'}
+                accessibilityState={{ selected: showChords }}
+              >
+                <Ionicons
+                  name={showChords ? 'musical-notes' : 'musical-notes-outline'}
+                  size={24}
+                  color={settings.theme === 'light' ? '#3182ce' : '#63b3ed'}
+                />
+              </TouchableOpacity>
+            )}
+            {/* Jump straight to the next hymn by number */}
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={() => navigation.navigate('NumberPad')}
+              accessibilityLabel="Go to song number"
+            >
+              <Ionicons name="keypad-outline" size={24} color={settings.theme === 'light' ? '#3182ce' : '#63b3ed'} />
+            </TouchableOpacity>
+          </View>
+        ),
       });
     }
-  }, [navigation, song.title, song.song_number, settings.fontSize]);
+  }, [navigation, song.title, song.song_number, settings.fontSize, settings.theme, songHasChords, showChords, handleToggleChords]);
+
+  // Load lyrics for this song (from the device when we have them)
+  const loadLyrics = async () => {
+    setLyricsError(null);
+    const result = await getSongLyrics(song);
+    if (result.data !== null) {
+      setLyrics(result.data);
+    } else {
+      setLyricsError(result.error || createAppError('unknown', 'Failed to load lyrics'));
+    }
+  };
+
+  // Both change identity with every render; only a different song should run this again
+  const songLoadRef = useRef({ loadLyrics, recordView });
+  songLoadRef.current = { loadLyrics, recordView };
+
+  useEffect(() => {
+    setLyrics(null);
+    songLoadRef.current.loadLyrics();
+    songLoadRef.current.recordView(song.id);
+  }, [song.id]);
 
   // Theme colors
   const colors = {
@@ -65,6 +139,9 @@ const LyricsScreen: React.FC<LyricsScreenProps> = ({ route, navigation }) => {
   };
 
   const handleFavouriteToggle = async () => {
+    // The heart updates right away; a rejected change is undone with a notice
+    if (isFavouritePending(song.id)) return;
+
     try {
       if (isCurrentlyFavourite) {
         await removeFavourite(song.id);
@@ -79,15 +156,11 @@ const LyricsScreen: React.FC<LyricsScreenProps> = ({ route, navigation }) => {
 
   // Handle add to folder functionality
   const handleAddToFolder = async () => {
-    if (isOffline) {
-      Alert.alert('Offline', 'Cannot add to folders while offline.');
-      return;
-    }
-
     try {
-      // Fetch user's folders
-      const foldersResult = await fetchFolders();
-      if (!foldersResult.data || foldersResult.data.length === 0) {
+      // Fetch user's folders, falling back to the cached list while offline
+      const foldersResult = isOffline ? { data: getFolders() } : await fetchFolders();
+      const folders = foldersResult.data || getFolders();
+      if (folders.length === 0) {
         Alert.alert(
           'No Folders Found',
           'You don\'t have any folders yet. Create a folder first from the Folders tab.',
@@ -103,7 +176,7 @@ const LyricsScreen: React.FC<LyricsScreenProps> = ({ route, navigation }) => {
       }
 
       // Show folder selection
-      const folderOptions = foldersResult.data.slice(0, 5).map(folder => ({
+      const folderOptions = folders.slice(0, 5).map(folder => ({
         text: folder.name,
         onPress: () => handleAddSongToFolder(folder.id!),
       }));
@@ -124,9 +197,18 @@ const LyricsScreen: React.FC<LyricsScreenProps> = ({ route, navigation }) => {
     try {
       const result = await addSongToFolder(song.id, folderId);
       if (result.data) {
-        Alert.alert('Success', `"${song.title}" added to folder!`);
-      } else {
+        Alert.alert(
+          'Success',
+          isOffline
+            ? `"${song.title}" added to folder! It will sync when you're back online.`
+            : `"${song.title}" added to folder!`
+        );
+      } else if (result.error?.category === 'duplicate') {
         Alert.alert('Info', 'Song is already in this folder.');
+      } else if (result.error?.category === 'not_found') {
+        Alert.alert('Folder Not Found', 'This folder no longer exists. It may have been deleted on another device.');
+      } else {
+        Alert.alert('Error', result.error?.message || 'Failed to add song to folder');
       }
     } catch (error) {
       Alert.alert('Error', 'Failed to add song to folder');
@@ -142,12 +224,32 @@ const LyricsScreen: React.FC<LyricsScreenProps> = ({ route, navigation }) => {
         onFavoriteToggle={handleFavouriteToggle}
         onAddToFolder={handleAddToFolder}
         onBackPress={() => navigation.goBack()}
+        onNumberPad={() => navigation.navigate('NumberPad')}
+        showChords={showChords}
+        onToggleChords={songHasChords ? handleToggleChords : undefined}
         songTitle={song.title}
       />
 
 
       {/* Lyrics */}
-      {Platform.OS === 'web' ? (
+      {lyrics === null ? (
+        <View style={[styles.statusContainer, Platform.OS === 'web' && { marginTop: 60 }]}>
+          {lyricsError ? (
+            <>
+              <Text style={[styles.statusText, { color: colors.subText, fontSize: currentFontSize }]}>
+                {lyricsError.category === 'not_found'
+                  ? 'This song is no longer in the songbook.'
+                  : lyricsError.message}
+              </Text>
+              {(lyricsError.retryable || lyricsError.category === 'unknown') && (
+                <Button title="Try Again" onPress={loadLyrics} variant="primary" size="medium" />
+              )}
+            </>
+          ) : (
+            <ActivityIndicator size="large" color={colors.accent} />
+          )}
+        </View>
+      ) : Platform.OS === 'web' ? (
         <View
           style={[
             styles.webScrollContainer,
@@ -158,18 +260,7 @@ const LyricsScreen: React.FC<LyricsScreenProps> = ({ route, navigation }) => {
           ]}
         >
           <View style={styles.webLyricsContent}>
-            <Text 
-              style={[
-                styles.webLyrics,
-                { 
-                  color: colors.text,
-                  fontSize: currentFontSize,
-                  lineHeight: currentFontSize * 1.6,
-                }
-              ]}
-            >
-              {song.lyrics}
-            </Text>
+            <LyricsSections lyrics={lyrics} fontSize={currentFontSize} showChords={showChords} />
           </View>
         </View>
       ) : (
@@ -179,18 +270,7 @@ const LyricsScreen: React.FC<LyricsScreenProps> = ({ route, navigation }) => {
           showsVerticalScrollIndicator={true}
           scrollEnabled={true}
         >
-          <Text 
-            style={[
-              styles.lyrics, 
-              { 
-                color: colors.text,
-                fontSize: currentFontSize,
-                lineHeight: currentFontSize * 1.6,
-              }
-            ]}
-          >
-            {song.lyrics}
-          </Text>
+          <LyricsSections lyrics={lyrics} fontSize={currentFontSize} showChords={showChords} />
         </ScrollView>
       )}
 
@@ -216,6 +296,14 @@ const LyricsScreen: React.FC<LyricsScreenProps> = ({ route, navigation }) => {
 };
 
 const styles = StyleSheet.create({
+  headerButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  headerButton: {
+    padding: 8,
+  },
   container: {
     flex: 1,
   },
@@ -245,16 +333,15 @@ const styles = StyleSheet.create({
     alignSelf: 'center', // Center the content
     minHeight: '150vh', // Ensure content is taller than viewport to enable scrolling
   },
-  webLyrics: {
-    textAlign: 'center',
-    ...Platform.select({
-      web: {
-        whiteSpace: 'pre-line', // Preserve line breaks on web
-      },
-    }),
+  statusContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
   },
-  lyrics: {
+  statusText: {
     textAlign: 'center',
+    marginBottom: 16,
   },
   folderButtonContainer: {
     position: 'absolute',
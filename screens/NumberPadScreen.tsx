@@ -0,0 +1,280 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Platform, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SongSummary } from '../constants/Config';
+import { useSupabase } from '../hooks/useSupabase';
+import { useOfflineCache } from '../hooks/useOfflineCache';
+import { useOffline } from '../contexts/OfflineContext';
+import { findSongsByNumberPrefix } from '../utils/songSearch';
+
+interface NumberPadScreenProps {
+  navigation: any;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'delete', '0', 'go'];
+
+// Longest number that can be typed before the song list has loaded
+const DEFAULT_MAX_DIGITS = 4;
+
+// Large keypad for jumping to a hymn by number: the song opens as soon as the digits typed can
+// only mean one song, and Go opens an exact match when longer numbers share the same start
+const NumberPadScreen: React.FC<NumberPadScreenProps> = ({ navigation }) => {
+  const [digits, setDigits] = useState('');
+  const [notFound, setNotFound] = useState(false);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const openedRef = useRef(false);
+
+  const { fetchSongs, searchSongs } = useSupabase();
+  const { cachedSongs, settings } = useOffline();
+
+  // Shares the songs index query with the Songs tab
+  const songsQuery = useOfflineCache('songs', () => fetchSongs(), {
+    cachedData: cachedSongs.length > 0 ? cachedSongs : undefined,
+  });
+  const allSongs = useMemo(() => songsQuery.data || [], [songsQuery.data]);
+
+  const maxDigits = useMemo(
+    () => (allSongs.length > 0
+      ? Math.max(...allSongs.map(song => song.song_number)).toString().length
+      : DEFAULT_MAX_DIGITS),
+    [allSongs]
+  );
+  const matches = useMemo(() => (digits ? findSongsByNumberPrefix(allSongs, digits) : []), [allSongs, digits]);
+  const exactMatch = matches.find(song => song.song_number.toString() === digits) || null;
+
+  // Theme colors
+  const colors = {
+    background: settings.theme === 'light' ? '#f8f9fa' : '#1a202c',
+    key: settings.theme === 'light' ? '#ffffff' : '#2d3748',
+    text: settings.theme === 'light' ? '#2d3748' : '#f7fafc',
+    subText: settings.theme === 'light' ? '#718096' : '#a0aec0',
+    accent: settings.theme === 'light' ? '#3182ce' : '#63b3ed',
+    border: settings.theme === 'light' ? '#e2e8f0' : '#4a5568',
+    error: settings.theme === 'light' ? '#e53e3e' : '#fc8181',
+  };
+
+  // Swap the keypad for the song, so Back returns to where the keypad was opened from
+  const openSong = useCallback((song: SongSummary) => {
+    if (openedRef.current) return;
+    openedRef.current = true;
+    navigation.replace('Lyrics', { song });
+  }, [navigation]);
+
+  // Open as soon as only one song can match
+  useEffect(() => {
+    if (matches.length === 1) {
+      openSong(matches[0]);
+    }
+  }, [matches, openSong]);
+
+  const handleDigit = (digit: string) => {
+    setNotFound(false);
+    setDigits(current => (current.length >= maxDigits || (!current && digit === '0') ? current : current + digit));
+  };
+
+  const handleDelete = () => {
+    setNotFound(false);
+    setDigits(current => current.slice(0, -1));
+  };
+
+  const handleGo = async () => {
+    if (!digits) return;
+    if (exactMatch) {
+      openSong(exactMatch);
+      return;
+    }
+    if (allSongs.length > 0) {
+      setNotFound(true);
+      return;
+    }
+
+    // The song list hasn't loaded yet (first visit on web), so ask the server
+    setIsLookingUp(true);
+    const { data } = await searchSongs(digits);
+    setIsLookingUp(false);
+    const song = data?.songs.find(candidate => candidate.song_number.toString() === digits);
+    if (song) {
+      openSong(song);
+    } else {
+      setNotFound(true);
+    }
+  };
+
+  // Hardware keyboards work too on web: digits, Backspace and Enter
+  const keyHandlerRef = useRef<(key: string) => void>(() => {});
+  keyHandlerRef.current = (key: string) => {
+    if (/^\d$/.test(key)) handleDigit(key);
+    else if (key === 'Backspace') handleDelete();
+    else if (key === 'Enter') handleGo();
+  };
+
+  useEffect(() => {
+    if (Platform.OS !== 'web') return;
+    const onKeyDown = (event: KeyboardEvent) => keyHandlerRef.current(event.key);
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const renderPreview = () => {
+    if (isLookingUp) {
+      return <ActivityIndicator color={colors.accent} />;
+    }
+    if (notFound) {
+      return <Text style={[styles.previewText, { color: colors.error }]}>No song {digits}</Text>;
+    }
+    if (!digits) {
+      return <Text style={[styles.previewText, { color: colors.subText }]}>Type a song number</Text>;
+    }
+    if (exactMatch) {
+      return (
+        <>
+          <Text style={[styles.previewTitle, { color: colors.text }]} numberOfLines={2}>
+            {exactMatch.title}
+          </Text>
+          {matches.length > 1 && (
+            <Text style={[styles.previewText, { color: colors.subText }]}>Tap Go, or keep typing</Text>
+          )}
+        </>
+      );
+    }
+    if (matches.length > 1) {
+      return (
+        <Text style={[styles.previewText, { color: colors.subText }]}>
+          {matches.length} songs start with {digits}
+        </Text>
+      );
+    }
+    if (allSongs.length === 0) {
+      return <Text style={[styles.previewText, { color: colors.subText }]}>Tap Go to find song {digits}</Text>;
+    }
+    return <Text style={[styles.previewText, { color: colors.error }]}>No song starts with {digits}</Text>;
+  };
+
+  const renderKey = (key: string) => {
+    if (key === 'delete') {
+      return (
+        <TouchableOpacity
+          key={key}
+          style={[styles.key, { backgroundColor: colors.key, borderColor: colors.border }]}
+          onPress={handleDelete}
+          onLongPress={() => setDigits('')}
+          accessibilityLabel="Delete digit"
+        >
+          <Ionicons name="backspace-outline" size={32} color={colors.text} />
+        </TouchableOpacity>
+      );
+    }
+    if (key === 'go') {
+      const enabled = digits.length > 0 && !isLookingUp;
+      return (
+        <TouchableOpacity
+          key={key}
+          style={[styles.key, { backgroundColor: enabled ? colors.accent : colors.border }]}
+          onPress={handleGo}
+          disabled={!enabled}
+          accessibilityLabel="Open song"
+        >
+          <Text style={[styles.goText, { color: 'white' }]}>Go</Text>
+        </TouchableOpacity>
+      );
+    }
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.key, { backgroundColor: colors.key, borderColor: colors.border }]}
+        onPress={() => handleDigit(key)}
+        accessibilityLabel={key}
+      >
+        <Text style={[styles.keyText, { color: colors.text }]}>{key}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={styles.display}>
+        <Text
+          style={[styles.digits, { color: digits ? colors.text : colors.border }]}
+          accessibilityLiveRegion="polite"
+        >
+          {digits || '–'}
+        </Text>
+        <View style={styles.preview}>{renderPreview()}</View>
+      </View>
+
+      <View style={styles.keypad}>
+        {[0, 3, 6, 9].map(rowStart => (
+          <View key={rowStart} style={styles.keyRow}>
+            {KEYS.slice(rowStart, rowStart + 3).map(renderKey)}
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingBottom: Platform.OS === 'ios' ? 40 : 24,
+  },
+  display: {
+    flex: 1,
+    width: '100%',
+    maxWidth: 420,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  digits: {
+    fontSize: 72,
+    fontWeight: '700',
+    letterSpacing: 4,
+    fontVariant: ['tabular-nums'],
+  },
+  preview: {
+    minHeight: 64,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  previewTitle: {
+    fontSize: 22,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  previewText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  keypad: {
+    width: '100%',
+    maxWidth: 420,
+    gap: 12,
+  },
+  keyRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  key: {
+    flex: 1,
+    height: 72,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyText: {
+    fontSize: 32,
+    fontWeight: '600',
+  },
+  goText: {
+    fontSize: 24,
+    fontWeight: '700',
+  },
+});
+
+export default NumberPadScreen;
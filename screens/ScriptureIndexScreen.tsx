@@ -0,0 +1,187 @@
+import React, { useMemo, useCallback } from 'react';
+import { View, SectionList, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SongSummary } from '../constants/Config';
+import { useSupabase } from '../hooks/useSupabase';
+import { useOfflineCache } from '../hooks/useOfflineCache';
+import { useOffline } from '../contexts/OfflineContext';
+import {
+  ScriptureIndexEntry,
+  ScriptureIndexSection,
+  buildScriptureIndex,
+  formatScripturePassage,
+} from '../utils/scripture';
+
+interface ScriptureIndexScreenProps {
+  navigation: any;
+}
+
+// Scripture index: every passage songs are based on, in canonical book order, so a hymn can be
+// picked to go with the sermon text
+const ScriptureIndexScreen: React.FC<ScriptureIndexScreenProps> = ({ navigation }) => {
+  const { fetchSongs } = useSupabase();
+  const { cachedSongs, settings, isOffline } = useOffline();
+
+  // Shares the songs index query with the Songs tab
+  const songsQuery = useOfflineCache('songs', () => fetchSongs(), {
+    cachedData: cachedSongs.length > 0 ? cachedSongs : undefined,
+  });
+
+  const sections = useMemo(() => buildScriptureIndex(songsQuery.data || []), [songsQuery.data]);
+  const isLoading = sections.length === 0 && songsQuery.isFetching;
+
+  // Theme colors
+  const colors = {
+    background: settings.theme === 'light' ? '#f8f9fa' : '#1a202c',
+    cardBackground: settings.theme === 'light' ? '#ffffff' : '#2d3748',
+    text: settings.theme === 'light' ? '#2d3748' : '#f7fafc',
+    subText: settings.theme === 'light' ? '#718096' : '#a0aec0',
+    accent: settings.theme === 'light' ? '#3182ce' : '#63b3ed',
+    border: settings.theme === 'light' ? '#e2e8f0' : '#4a5568',
+  };
+
+  const handleSongPress = useCallback((song: SongSummary) => {
+    navigation.navigate('Lyrics', { song });
+  }, [navigation]);
+
+  const renderSectionHeader = (section: ScriptureIndexSection) => (
+    <View style={[styles.sectionHeader, { backgroundColor: colors.background, borderBottomColor: colors.border }]}>
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>{section.book}</Text>
+    </View>
+  );
+
+  const renderEntry = (entry: ScriptureIndexEntry) => (
+    <TouchableOpacity
+      style={[styles.entry, { backgroundColor: colors.cardBackground, borderBottomColor: colors.border }]}
+      onPress={() => handleSongPress(entry.song)}
+      accessibilityRole="button"
+      accessibilityLabel={`${entry.reference.book} ${formatScripturePassage(entry.reference)}: ${entry.song.title}`}
+    >
+      <Text style={[styles.passage, { color: colors.accent }]}>{formatScripturePassage(entry.reference)}</Text>
+      <Text style={[styles.songNumber, { color: colors.subText }]}>{entry.song.song_number}</Text>
+      <Text style={[styles.songTitle, { color: colors.text }]} numberOfLines={1}>{entry.song.title}</Text>
+      <Ionicons name="chevron-forward" size={18} color={colors.subText} />
+    </TouchableOpacity>
+  );
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={[styles.emptyTitle, { color: colors.text }]}>
+        {isLoading ? 'Loading songs...' : 'No scripture references yet'}
+      </Text>
+      {!isLoading && (
+        <Text style={[styles.emptySubtitle, { color: colors.subText }]}>
+          {isOffline
+            ? 'References will appear here once the songbook has synced'
+            : 'Songs appear here once they have been linked to Bible passages'}
+        </Text>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {Platform.OS === 'web' ? (
+        <div
+          style={{
+            flex: 1,
+            height: '100vh',
+            overflow: 'auto',
+            WebkitOverflowScrolling: 'touch',
+          }}
+        >
+          <div style={{ paddingBottom: '200px' }}>
+            {sections.length === 0 ? (
+              <div>{renderEmpty()}</div>
+            ) : (
+              sections.map(section => (
+                <div key={section.book}>
+                  {renderSectionHeader(section)}
+                  {section.entries.map((entry, index) => (
+                    <div key={`${entry.song.id}-${index}`}>{renderEntry(entry)}</div>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      ) : (
+        <SectionList
+          sections={sections.map(section => ({ ...section, data: section.entries }))}
+          keyExtractor={(item, index) => `${item.song.id}-${index}`}
+          renderItem={({ item }) => renderEntry(item)}
+          renderSectionHeader={({ section }) => renderSectionHeader(section)}
+          ListEmptyComponent={renderEmpty}
+          stickySectionHeadersEnabled={true}
+          contentContainerStyle={sections.length === 0 ? styles.emptyList : styles.listContainer}
+          showsVerticalScrollIndicator={true}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  sectionHeader: {
+    paddingHorizontal: Platform.OS === 'web' ? 32 : 24,
+    paddingTop: 16,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Platform.OS === 'web' ? 32 : 24,
+    paddingVertical: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  passage: {
+    width: 88,
+    fontSize: 15,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+  },
+  songNumber: {
+    width: 44,
+    fontSize: 15,
+    fontVariant: ['tabular-nums'],
+  },
+  songTitle: {
+    flex: 1,
+    fontSize: 16,
+    marginRight: 8,
+  },
+  listContainer: {
+    paddingBottom: Platform.OS === 'ios' ? 40 : 24,
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingVertical: 64,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+});
+
+export default ScriptureIndexScreen;
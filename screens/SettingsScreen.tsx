@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -7,19 +7,51 @@ import {
   TouchableOpacity,
   Platform,
   Alert,
+  Switch,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useOffline } from '../contexts/OfflineContext';
 import { useAuth } from '../contexts/AuthContext';
-import { APP_CONFIG } from '../constants/Config';
+import { useSync } from '../contexts/SyncContext';
+import { useLibraryBackup } from '../hooks/useLibraryBackup';
+import { APP_CONFIG, BackupImportPlan } from '../constants/Config';
+import { describeMutation } from '../utils/outbox';
+import { formatRelativeTime } from '../utils/helpers';
+import { describeConflict } from '../utils/backup';
 
 interface SettingsScreenProps {
   navigation: any;
 }
 
 const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
-  const { settings, toggleTheme, updateFontSize } = useOffline();
+  const {
+    settings,
+    toggleTheme,
+    updateFontSize,
+    updateSettings,
+    isOffline,
+    lastSync,
+    cachedSongs,
+    cachedFolders,
+    pendingMutations,
+    failedMutations,
+    isReplaying,
+    replayOutbox,
+    retryFailedMutation,
+    dismissFailedMutation,
+  } = useOffline();
   const { user, signOut } = useAuth();
+  const { isSyncing, nextSyncAt, lastSyncError, syncNow } = useSync();
+  const { isWorking: isBackupWorking, exportLibrary, previewImport, applyImport } = useLibraryBackup();
+  const [importPlan, setImportPlan] = useState<BackupImportPlan | null>(null);
+  const [backupStatus, setBackupStatus] = useState<{ message: string; isError: boolean } | null>(null);
+
+  // Redraw the relative sync times ("next sync in 3 min") while the screen stays open
+  const [, setClockTick] = useState(0);
+  useEffect(() => {
+    const interval = setInterval(() => setClockTick(tick => tick + 1), 30000);
+    return () => clearInterval(interval);
+  }, []);
 
   // Theme colors
   const colors = {
@@ -37,10 +69,53 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
 
   const currentFontSize = Math.max(settings?.fontSize || 16, 12);
 
+  // Backups show their results inline; Alert buttons don't work on web
+  const handleExport = async () => {
+    setBackupStatus(null);
+    const result = await exportLibrary();
+    setBackupStatus(result.error
+      ? { message: result.error.message, isError: true }
+      // The share sheet doesn't say whether the file was saved or sent anywhere
+      : { message: Platform.OS === 'web' ? 'Library exported' : 'Library backup shared', isError: false });
+  };
+
+  const handleChooseBackup = async () => {
+    setBackupStatus(null);
+    setImportPlan(null);
+    const result = await previewImport();
+    if (result.error) {
+      setBackupStatus({ message: result.error.message, isError: true });
+    } else if (result.data) {
+      setImportPlan(result.data);
+    }
+  };
+
+  const handleApplyImport = async () => {
+    if (!importPlan) return;
+    const result = await applyImport(importPlan);
+    setImportPlan(null);
+    setBackupStatus({
+      message: `Imported ${result.favouritesAdded} ${result.favouritesAdded === 1 ? 'favourite' : 'favourites'}, ` +
+        `${result.foldersCreated} ${result.foldersCreated === 1 ? 'folder' : 'folders'} and ` +
+        `${result.songsAdded} folder ${result.songsAdded === 1 ? 'song' : 'songs'}` +
+        (result.failed > 0 ? ` - ${result.failed} could not be saved` : ''),
+      isError: result.failed > 0,
+    });
+  };
+
+  const importSongCount = importPlan?.folders.reduce((count, folder) => count + folder.songIds.length, 0) ?? 0;
+  const importFolderCount = importPlan?.folders.filter(folder => folder.existingFolderId === null).length ?? 0;
+  const hasImportChanges = !!importPlan && (importPlan.favouriteSongIds.length > 0 || importFolderCount > 0 || importSongCount > 0);
+
   const handleSignOut = () => {
+    const unsyncedCount = pendingMutations.length + failedMutations.length;
+    const unsyncedWarning = unsyncedCount > 0
+      ? `\n\n${unsyncedCount} offline ${unsyncedCount === 1 ? 'change has' : 'changes have'} not synced yet and will be lost.`
+      : '';
+
     Alert.alert(
       'Sign Out',
-      'Are you sure you want to sign out? Your favorites and folders will be synced when you sign back in.',
+      `Are you sure you want to sign out? Your favorites and folders will be removed from this device and restored when you sign back in.${unsyncedWarning}`,
       [
         {
           text: 'Cancel',
@@ -110,6 +185,180 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
         </TouchableOpacity>
       </View>
 
+      {/* Offline Changes */}
+      {(pendingMutations.length > 0 || failedMutations.length > 0) && (
+        <View style={[styles.section, { backgroundColor: colors.cardBackground }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Offline Changes</Text>
+
+          {pendingMutations.length > 0 && (
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={[styles.settingLabel, { color: colors.text }]}>
+                  {pendingMutations.length} {pendingMutations.length === 1 ? 'change' : 'changes'} waiting to sync
+                </Text>
+                <Text style={[styles.settingDescription, { color: colors.subText }]}>
+                  {isOffline
+                    ? 'They will be sent automatically when you are back online'
+                    : isReplaying ? 'Syncing now...' : 'Tap sync to send them now'}
+                </Text>
+              </View>
+              {!isOffline && (
+                <TouchableOpacity
+                  style={[styles.themeButton, { backgroundColor: colors.accent, borderColor: colors.accent }]}
+                  onPress={replayOutbox}
+                  disabled={isReplaying}
+                >
+                  <Text style={[styles.themeButtonText, { color: '#ffffff' }]}>
+                    {isReplaying ? 'Syncing' : 'Sync'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {failedMutations.map((entry) => (
+            <View key={entry.id} style={[styles.failedChange, { borderColor: '#e53e3e40' }]}>
+              <Text style={[styles.settingLabel, { color: colors.text }]}>
+                {describeMutation(entry, cachedSongs, cachedFolders)}
+              </Text>
+              <Text style={[styles.settingDescription, { color: '#e53e3e' }]}>
+                Could not be saved: {entry.lastError || 'Unknown error'}
+              </Text>
+              <View style={styles.failedChangeActions}>
+                <TouchableOpacity onPress={() => retryFailedMutation(entry.id)}>
+                  <Text style={[styles.failedChangeAction, { color: colors.accent }]}>Retry</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => dismissFailedMutation(entry.id)}>
+                  <Text style={[styles.failedChangeAction, { color: colors.subText }]}>Dismiss</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Sync Settings */}
+      <View style={[styles.section, { backgroundColor: colors.cardBackground }]}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>Sync</Text>
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { color: colors.text }]}>Auto-sync</Text>
+            <Text style={[styles.settingDescription, { color: colors.subText }]}>
+              Keep songs, favourites and folders up to date in the background
+            </Text>
+          </View>
+          <Switch
+            value={settings.autoSync}
+            onValueChange={(autoSync) => updateSettings({ autoSync })}
+            trackColor={{ false: colors.border, true: colors.accent }}
+          />
+        </View>
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { color: colors.text }]}>
+              {isSyncing ? 'Syncing now...' : `Last synced ${lastSync ? formatRelativeTime(lastSync) : 'never'}`}
+            </Text>
+            <Text style={[styles.settingDescription, { color: lastSyncError ? '#e53e3e' : colors.subText }]}>
+              {lastSyncError
+                ? `Last sync failed: ${lastSyncError.message}${nextSyncAt ? ` - retrying ${formatRelativeTime(nextSyncAt)}` : ''}`
+                : !settings.autoSync
+                  ? 'Auto-sync is off'
+                  : isOffline
+                    ? 'Will sync when you are back online'
+                    : nextSyncAt ? `Next sync ${formatRelativeTime(nextSyncAt)}` : ''}
+            </Text>
+          </View>
+          {!isOffline && (
+            <TouchableOpacity
+              style={[styles.themeButton, { backgroundColor: colors.accent, borderColor: colors.accent }]}
+              onPress={syncNow}
+              disabled={isSyncing}
+            >
+              <Text style={[styles.themeButtonText, { color: '#ffffff' }]}>
+                {isSyncing ? 'Syncing' : 'Sync'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      {/* Backup */}
+      <View style={[styles.section, { backgroundColor: colors.cardBackground }]}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>Backup</Text>
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { color: colors.text }]}>Export library</Text>
+            <Text style={[styles.settingDescription, { color: colors.subText }]}>
+              Save your favourites and folders to a file
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.themeButton, { backgroundColor: colors.accent, borderColor: colors.accent }]}
+            onPress={handleExport}
+            disabled={isBackupWorking}
+          >
+            <Text style={[styles.themeButtonText, { color: '#ffffff' }]}>Export</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { color: colors.text }]}>Import library</Text>
+            <Text style={[styles.settingDescription, { color: colors.subText }]}>
+              Add favourites and folders from a backup file
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.themeButton, { backgroundColor: colors.accent, borderColor: colors.accent }]}
+            onPress={handleChooseBackup}
+            disabled={isBackupWorking}
+          >
+            <Text style={[styles.themeButtonText, { color: '#ffffff' }]}>Import</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Import preview - nothing changes until it is confirmed */}
+        {importPlan && (
+          <View style={[styles.failedChange, { borderColor: colors.border }]}>
+            <Text style={[styles.settingLabel, { color: colors.text }]}>
+              {hasImportChanges
+                ? `This backup adds ${importPlan.favouriteSongIds.length} ${importPlan.favouriteSongIds.length === 1 ? 'favourite' : 'favourites'}, ` +
+                  `${importFolderCount} new ${importFolderCount === 1 ? 'folder' : 'folders'} and ` +
+                  `${importSongCount} folder ${importSongCount === 1 ? 'song' : 'songs'}`
+                : 'Everything in this backup is already in your library'}
+            </Text>
+            {importPlan.conflicts.map((conflict, index) => (
+              <Text key={index} style={[styles.settingDescription, { color: '#dd6b20' }]}>
+                {describeConflict(conflict)}
+              </Text>
+            ))}
+            <View style={styles.failedChangeActions}>
+              <TouchableOpacity onPress={() => setImportPlan(null)} disabled={isBackupWorking}>
+                <Text style={[styles.failedChangeAction, { color: colors.subText }]}>
+                  {hasImportChanges ? 'Cancel' : 'Close'}
+                </Text>
+              </TouchableOpacity>
+              {hasImportChanges && (
+                <TouchableOpacity onPress={handleApplyImport} disabled={isBackupWorking}>
+                  <Text style={[styles.failedChangeAction, { color: colors.accent }]}>
+                    {isBackupWorking ? 'Importing...' : 'Import'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
+
+        {backupStatus && (
+          <Text style={[styles.settingDescription, { color: backupStatus.isError ? '#e53e3e' : colors.subText }]}>
+            {backupStatus.message}
+          </Text>
+        )}
+      </View>
+
       {/* Appearance Settings */}
       <View style={[styles.section, { backgroundColor: colors.cardBackground }]}>
         <Text style={[styles.sectionTitle, { color: colors.text }]}>Appearance</Text>
@@ -237,6 +486,20 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
             ))}
           </View>
         </View>
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { color: colors.text }]}>Show chords</Text>
+            <Text style={[styles.settingDescription, { color: colors.subText }]}>
+              Musicians view: chords above the words on songs that have them. Off for the singers view.
+            </Text>
+          </View>
+          <Switch
+            value={settings.lyricsView === 'musicians'}
+            onValueChange={(showChords) => updateSettings({ lyricsView: showChords ? 'musicians' : 'singers' })}
+            trackColor={{ false: colors.border, true: colors.accent }}
+          />
+        </View>
       </View>
 
       {/* App Info */}
@@ -477,6 +740,22 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  failedChange: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  failedChangeActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 20,
+    marginTop: 8,
+  },
+  failedChangeAction: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   bottomSpacing: {
     height: 40,
   },
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo, useCallback, useMemo as useMemoized } from 'react';
+import React, { useState, useMemo, useCallback, useMemo as useMemoized } from 'react';
 import {
   View,
   FlatList,
@@ -8,10 +8,20 @@ import {
   Alert,
   Platform,
 } from 'react-native';
-import { Song } from '../constants/Config';
+import { SongSummary } from '../constants/Config';
 import { useSupabase } from '../hooks/useSupabase';
+import { setOfflineCacheData, useOfflineCache } from '../hooks/useOfflineCache';
+import { useSongSearch } from '../hooks/useSongSearch';
+import { useSearchHistory } from '../hooks/useSearchHistory';
+import { useListFilters } from '../hooks/useListFilters';
+import { useRecentlyViewed } from '../hooks/useRecentlyViewed';
+import { filterSongs, sortSongs } from '../utils/songSort';
+import { filterSongsByTopic, sortTopics } from '../utils/topics';
 import { useOffline } from '../contexts/OfflineContext';
 import SearchBar from '../components/SearchBar';
+import SearchSuggestion from '../components/SearchSuggestion';
+import SortFilterSheet from '../components/SortFilterSheet';
+import TopicChips from '../components/TopicChips';
 import SongCard from '../components/SongCard';
 import Button from '../components/Button';
 
@@ -22,51 +32,66 @@ interface SongsScreenProps {
 const SongsScreen: React.FC<SongsScreenProps> = ({ navigation }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [refreshing, setRefreshing] = useState(false);
-  const [allSongs, setAllSongs] = useState<Song[]>([]);
+  const [loadingMoreResults, setLoadingMoreResults] = useState(false);
+  const [selectedTopicId, setSelectedTopicId] = useState<number | null>(null);
   
-  const { fetchSongs, syncAllData, loading, error } = useSupabase();
-  const { getSongs, settings, isOffline } = useOffline();
+  const { fetchSongs, searchSongs, fetchTopics, syncAllData, error } = useSupabase();
+  const { cachedSongs, cachedTopics, cachedFavourites, settings, isOffline } = useOffline();
+  const { filters, setFilters } = useListFilters('songs');
+  const { viewedAt } = useRecentlyViewed();
 
-  // Initialize songs when component mounts
-  useEffect(() => {
-    const cachedSongs = getSongs();
-    if (cachedSongs.length > 0) {
-      setAllSongs(cachedSongs);
-    } else {
-      loadSongs();
-    }
-  }, []);
+  // The cached index shows instantly; it is refreshed in the background when stale
+  const songsQuery = useOfflineCache('songs', () => fetchSongs(), {
+    cachedData: cachedSongs.length > 0 ? cachedSongs : undefined,
+  });
+  const allSongs = useMemo(() => songsQuery.data || [], [songsQuery.data]);
+
+  // Only topics with songs in the catalog are offered as filters
+  const topicsQuery = useOfflineCache('topics', () => fetchTopics(), {
+    cachedData: cachedTopics.length > 0 ? cachedTopics : undefined,
+  });
+  const topics = useMemo(() => {
+    const taggedTopicIds = new Set(allSongs.flatMap(song => song.topic_ids || []));
+    return sortTopics((topicsQuery.data || []).filter(topic => taggedTopicIds.has(topic.id)));
+  }, [topicsQuery.data, allSongs]);
+  const selectedTopic = topics.find(topic => topic.id === selectedTopicId) || null;
+
+  // Until the index has been downloaded once, search on the server instead
+  const trimmedQuery = searchQuery.trim();
+  const serverSearchKey = allSongs.length === 0 && trimmedQuery ? `searchSongs:${trimmedQuery}` : null;
+  const serverSearch = useOfflineCache(
+    serverSearchKey,
+    (signal) => searchSongs(trimmedQuery, signal),
+    { keepPreviousData: true }
+  );
+  const serverPage = serverSearchKey ? serverSearch.data : null;
+  const hasMoreResults = !!serverPage && serverPage.songs.length < serverPage.total;
+
+  // Connection problems just mean we're showing saved data; anything else is worth a banner
+  const loadError = songsQuery.error || serverSearch.error || error;
+  const showOfflineStatus = isOffline || loadError?.category === 'network';
 
-  // Filter songs based on search query using useMemo for performance
+  const { addQuery } = useSearchHistory();
+
+  // The saved filter and topic narrow the list; its sort applies until a search ranks the results
+  const favouriteIds = useMemo(() => new Set(cachedFavourites.map(fav => fav.song_id)), [cachedFavourites]);
+  const listSongs = useMemo(
+    () => filterSongsByTopic(filterSongs(allSongs, filters, favouriteIds), selectedTopic?.id ?? null),
+    [allSongs, filters, favouriteIds, selectedTopic]
+  );
+  const sortedSongs = useMemo(() => sortSongs(listSongs, filters, viewedAt), [listSongs, filters, viewedAt]);
+
+  // Numbers match song numbers; words are searched in titles and lyrics, best matches first
+  const search = useSongSearch(listSongs, searchQuery);
   const filteredSongs = useMemo(() => {
-    if (!searchQuery.trim()) {
-      return allSongs;
+    if (!trimmedQuery) {
+      return sortedSongs;
     }
-
-    const query = searchQuery.toLowerCase().trim();
-    
-    // Check if query is a number (for song number search)
-    const isNumberSearch = /^\d+$/.test(query);
-    
-    return allSongs.filter((song) => {
-      if (isNumberSearch) {
-        // For number searches, only search in song_number
-        const songNumber = song.song_number.toString();
-        return songNumber === query || songNumber.startsWith(query);
-      } else {
-        // For text searches, only search in title
-        return song.title.toLowerCase().includes(query);
-      }
-    }).sort((a, b) => {
-      if (isNumberSearch) {
-        // For number searches, sort by song number
-        return parseInt(a.song_number.toString()) - parseInt(b.song_number.toString());
-      } else {
-        // For text searches, sort alphabetically by title
-        return a.title.localeCompare(b.title);
-      }
-    });
-  }, [allSongs, searchQuery]);
+    if (allSongs.length === 0) {
+      return serverSearch.data?.songs || [];
+    }
+    return search.results || [];
+  }, [allSongs.length, sortedSongs, trimmedQuery, serverSearch.data, search.results]);
 
   // Theme colors
   const colors = {
@@ -75,22 +100,6 @@ const SongsScreen: React.FC<SongsScreenProps> = ({ navigation }) => {
     subText: settings.theme === 'light' ? '#718096' : '#a0aec0',
   };
 
-  const loadSongs = async () => {
-    try {
-      const result = await fetchSongs();
-      if (result.data) {
-        setAllSongs(result.data);
-      } else {
-        const cachedSongs = getSongs();
-        setAllSongs(cachedSongs);
-      }
-    } catch (err) {
-      console.error('Error loading songs:', err);
-      const cachedSongs = getSongs();
-      setAllSongs(cachedSongs);
-    }
-  };
-
   const handleRefresh = async () => {
     if (isOffline) {
       Alert.alert('Offline', 'Cannot refresh while offline. Showing cached data.');
@@ -100,7 +109,6 @@ const SongsScreen: React.FC<SongsScreenProps> = ({ navigation }) => {
     setRefreshing(true);
     try {
       await syncAllData();
-      await loadSongs();
     } catch (err) {
       Alert.alert('Error', 'Failed to refresh songs');
     } finally {
@@ -108,7 +116,7 @@ const SongsScreen: React.FC<SongsScreenProps> = ({ navigation }) => {
     }
   };
 
-  const handleSongPress = (song: Song) => {
+  const handleSongPress = useCallback((song: SongSummary) => {
     console.log('Song pressed:', song.title, 'Navigating to Lyrics screen');
     try {
       navigation.navigate('Lyrics', { song });
@@ -116,36 +124,79 @@ const SongsScreen: React.FC<SongsScreenProps> = ({ navigation }) => {
       console.error('Navigation error:', error);
       Alert.alert('Navigation Error', 'Could not open lyrics screen');
     }
+  }, [navigation]);
+
+  // Opening a search result remembers the search
+  const handleResultPress = (song: SongSummary) => {
+    if (trimmedQuery) {
+      addQuery(trimmedQuery);
+    }
+    handleSongPress(song);
   };
 
   const handleSearch = useCallback((query: string) => {
     setSearchQuery(query);
   }, []);
 
-  const renderSong = ({ item }: { item: Song }) => (
+  const handleBrowseTopics = useCallback(() => {
+    navigation.navigate('Topics');
+  }, [navigation]);
+
+  // Server results arrive a page at a time; the next page is added to the cached search
+  const handleLoadMoreResults = async () => {
+    if (!serverSearchKey || !serverPage || loadingMoreResults) return;
+
+    setLoadingMoreResults(true);
+    try {
+      const { data } = await searchSongs(trimmedQuery, undefined, serverPage.songs.length);
+      if (data) {
+        setOfflineCacheData(serverSearchKey, { songs: [...serverPage.songs, ...data.songs], total: data.total });
+      }
+    } finally {
+      setLoadingMoreResults(false);
+    }
+  };
+
+  const renderFooter = () => (hasMoreResults ? (
+    <View style={styles.footer}>
+      <Button
+        title="Show more results"
+        onPress={handleLoadMoreResults}
+        loading={loadingMoreResults}
+        variant="outline"
+        size="medium"
+      />
+    </View>
+  ) : null);
+
+  const renderSong = ({ item }: { item: SongSummary }) => (
     <SongCard
       song={item}
-      onPress={handleSongPress}
+      onPress={handleResultPress}
       showFavouriteButton={true}
       showNumber={true}
+      highlightQuery={search.matches.get(item.id)?.terms.join(' ')}
+      matchedLine={search.matches.get(item.id)?.line}
     />
   );
 
   const renderEmpty = useCallback(() => (
     <View style={styles.emptyContainer}>
       <Text style={[styles.emptyTitle, { color: colors.text }]}>
-        {searchQuery ? 'No songs found' : 'No songs available'}
+        {searchQuery || selectedTopic ? 'No songs found' : 'No songs available'}
       </Text>
       <Text style={[styles.emptySubtitle, { color: colors.subText }]}>
         {searchQuery
           ? 'Try adjusting your search terms'
-          : 'Songs will appear here once loaded from the database'}
+          : selectedTopic
+            ? `No songs match your filters in ${selectedTopic.name}`
+            : 'Songs will appear here once loaded from the database'}
       </Text>
-      {!searchQuery && !isOffline && (
+      {!searchQuery && !selectedTopic && !isOffline && (
         <Button
           title="Sync Songs"
           onPress={handleRefresh}
-          loading={loading || refreshing}
+          loading={songsQuery.isFetching || refreshing}
           icon="refresh"
           variant="primary"
           size="medium"
@@ -157,21 +208,48 @@ const SongsScreen: React.FC<SongsScreenProps> = ({ navigation }) => {
         </Text>
       )}
     </View>
-  ), [searchQuery, isOffline, colors.text, colors.subText, handleRefresh, loading, refreshing]);
+  ), [searchQuery, selectedTopic, isOffline, colors.text, colors.subText, handleRefresh, songsQuery.isFetching, refreshing]);
 
   const renderHeader = useMemoized(() => (
     <View style={styles.header}>
       {/* Search Section */}
       <View style={styles.searchSection}>
         <SearchBar
-          placeholder="Search songs by title, number, or lyrics..."
+          placeholder="Search by title, number, first line or verse (Ps 23)..."
           onSearch={handleSearch}
           value={searchQuery}
+          songs={allSongs}
+          onSelectSong={handleSongPress}
         />
       </View>
+
+      {search.suggestion && (
+        <SearchSuggestion
+          suggestion={search.suggestion}
+          hasResults={filteredSongs.length > 0}
+          onPress={handleSearch}
+        />
+      )}
+
+      {topics.length > 0 && (
+        <TopicChips
+          topics={topics}
+          selectedTopicId={selectedTopic?.id ?? null}
+          onSelect={setSelectedTopicId}
+          onBrowse={handleBrowseTopics}
+        />
+      )}
+
+      <SortFilterSheet
+        filters={filters}
+        onChange={setFilters}
+        recentLabel="Recently viewed"
+        showFavouritesFilter
+        isSearching={!!trimmedQuery}
+      />
       
       {/* Status Banner */}
-      {isOffline && (
+      {showOfflineStatus && (
         <View style={[styles.statusBanner, { backgroundColor: colors.subText + '15' }]}>
           <Text style={[styles.statusText, { color: colors.subText }]}>
             📱 Offline Mode - Showing cached songs
@@ -180,7 +258,7 @@ const SongsScreen: React.FC<SongsScreenProps> = ({ navigation }) => {
       )}
       
     </View>
-  ), [searchQuery, isOffline, colors.subText, handleSearch]);
+  ), [searchQuery, showOfflineStatus, colors.subText, handleSearch, filteredSongs.length, search.suggestion, allSongs, handleSongPress, topics, selectedTopic, handleBrowseTopics, filters, setFilters]);
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -209,6 +287,7 @@ const SongsScreen: React.FC<SongsScreenProps> = ({ navigation }) => {
                 </div>
               ))
             )}
+            {renderFooter()}
           </div>
         </div>
       ) : (
@@ -218,6 +297,7 @@ const SongsScreen: React.FC<SongsScreenProps> = ({ navigation }) => {
           keyExtractor={(item) => item.id.toString()}
           ListHeaderComponent={renderHeader}
           ListEmptyComponent={renderEmpty}
+          ListFooterComponent={renderFooter}
           refreshControl={
             <RefreshControl
               refreshing={refreshing}
@@ -235,9 +315,9 @@ const SongsScreen: React.FC<SongsScreenProps> = ({ navigation }) => {
         />
       )}
       
-      {error && (
+      {loadError && loadError.category !== 'network' && (
         <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error}</Text>
+          <Text style={styles.errorText}>{loadError.message}</Text>
         </View>
       )}
     </View>
@@ -268,6 +348,10 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontWeight: '500',
   },
+  footer: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
   listContainer: {
     paddingBottom: Platform.OS === 'ios' ? 120 : 100,
   },
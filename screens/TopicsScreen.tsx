@@ -0,0 +1,162 @@
+import React, { useMemo, useCallback } from 'react';
+import { View, SectionList, Text, StyleSheet, Platform } from 'react-native';
+import { SongSummary } from '../constants/Config';
+import { useSupabase } from '../hooks/useSupabase';
+import { useOfflineCache } from '../hooks/useOfflineCache';
+import { useOffline } from '../contexts/OfflineContext';
+import { TopicSection, groupSongsByTopic } from '../utils/topics';
+import SongCard from '../components/SongCard';
+
+interface TopicsScreenProps {
+  navigation: any;
+}
+
+// Topical index: every topic with the songs listed under it, like the index at the back of a hymnal
+const TopicsScreen: React.FC<TopicsScreenProps> = ({ navigation }) => {
+  const { fetchSongs, fetchTopics } = useSupabase();
+  const { cachedSongs, cachedTopics, settings, isOffline } = useOffline();
+
+  // Shares the songs index and topics queries with the Songs tab
+  const songsQuery = useOfflineCache('songs', () => fetchSongs(), {
+    cachedData: cachedSongs.length > 0 ? cachedSongs : undefined,
+  });
+  const topicsQuery = useOfflineCache('topics', () => fetchTopics(), {
+    cachedData: cachedTopics.length > 0 ? cachedTopics : undefined,
+  });
+
+  const sections = useMemo(
+    () => groupSongsByTopic(songsQuery.data || [], topicsQuery.data || []),
+    [songsQuery.data, topicsQuery.data]
+  );
+  const isLoading = sections.length === 0 && (songsQuery.isFetching || topicsQuery.isFetching);
+
+  // Theme colors
+  const colors = {
+    background: settings.theme === 'light' ? '#f8f9fa' : '#1a202c',
+    text: settings.theme === 'light' ? '#2d3748' : '#f7fafc',
+    subText: settings.theme === 'light' ? '#718096' : '#a0aec0',
+    border: settings.theme === 'light' ? '#e2e8f0' : '#4a5568',
+  };
+
+  const handleSongPress = useCallback((song: SongSummary) => {
+    navigation.navigate('Lyrics', { song });
+  }, [navigation]);
+
+  const renderSectionHeader = (section: TopicSection) => (
+    <View style={[styles.sectionHeader, { backgroundColor: colors.background, borderBottomColor: colors.border }]}>
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>{section.topic.name}</Text>
+      <Text style={[styles.sectionCount, { color: colors.subText }]}>
+        {section.songs.length} {section.songs.length === 1 ? 'song' : 'songs'}
+      </Text>
+    </View>
+  );
+
+  const renderSong = (song: SongSummary) => (
+    <SongCard song={song} onPress={handleSongPress} showFavouriteButton={true} showNumber={true} />
+  );
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={[styles.emptyTitle, { color: colors.text }]}>
+        {isLoading ? 'Loading topics...' : 'No topics yet'}
+      </Text>
+      {!isLoading && (
+        <Text style={[styles.emptySubtitle, { color: colors.subText }]}>
+          {isOffline
+            ? 'Topics will appear here once the songbook has synced'
+            : 'Songs appear here once they have been given topics'}
+        </Text>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {Platform.OS === 'web' ? (
+        <div
+          style={{
+            flex: 1,
+            height: '100vh',
+            overflow: 'auto',
+            WebkitOverflowScrolling: 'touch',
+          }}
+        >
+          <div style={{ paddingBottom: '200px' }}>
+            {sections.length === 0 ? (
+              <div>{renderEmpty()}</div>
+            ) : (
+              sections.map(section => (
+                <div key={section.topic.id.toString()}>
+                  {renderSectionHeader(section)}
+                  {section.songs.map(song => (
+                    <div key={song.id.toString()}>{renderSong(song)}</div>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      ) : (
+        <SectionList
+          sections={sections.map(section => ({ ...section, data: section.songs }))}
+          keyExtractor={(item) => item.id.toString()}
+          renderItem={({ item }) => renderSong(item)}
+          renderSectionHeader={({ section }) => renderSectionHeader(section)}
+          ListEmptyComponent={renderEmpty}
+          stickySectionHeadersEnabled={true}
+          contentContainerStyle={sections.length === 0 ? styles.emptyList : styles.listContainer}
+          showsVerticalScrollIndicator={true}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    paddingHorizontal: Platform.OS === 'web' ? 32 : 24,
+    paddingTop: 16,
+    paddingBottom: 8,
+    marginBottom: 8,
+    borderBottomWidth: 1,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  sectionCount: {
+    fontSize: 14,
+  },
+  listContainer: {
+    paddingBottom: Platform.OS === 'ios' ? 40 : 24,
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingVertical: 64,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+});
+
+export default TopicsScreen;
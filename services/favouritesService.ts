@@ -0,0 +1,99 @@
+import {
+  supabaseClient,
+  DATA_SOURCE,
+  Favourite,
+  RepositoryResult,
+  SONG_INDEX_COLUMNS,
+  SongSummary,
+} from '../constants/Config';
+import { getLocalDatabase, nextLocalId, saveLocalDatabase, toSongSummary, uniqueViolation } from './localDatabase';
+import { fromSongRow, SongRow } from './songsService';
+
+export interface FavouritesRepository {
+  // Favourites with their song index entry populated
+  fetchFavourites: (userId: string) => Promise<RepositoryResult<Favourite[]>>;
+  addFavourite: (userId: string, songId: number) => Promise<RepositoryResult<Favourite>>;
+  removeFavourite: (userId: string, songId: number) => Promise<RepositoryResult<null>>;
+}
+
+export const supabaseFavouritesRepository: FavouritesRepository = {
+  fetchFavourites: async (userId) => {
+    const { data, error } = await supabaseClient
+      .from('favourites')
+      .select(`
+        *,
+        song:songs(${SONG_INDEX_COLUMNS})
+      `)
+      .eq('user_id', userId)
+      .overrideTypes<(Omit<Favourite, 'song'> & { song: SongRow<SongSummary> | null })[], { merge: false }>();
+    const favourites = data?.map(({ song, ...favourite }) => ({
+      ...favourite,
+      song: song ? fromSongRow<SongSummary>(song) : undefined,
+    })) ?? null;
+    return { data: favourites, error };
+  },
+
+  addFavourite: async (userId, songId) => {
+    const { data, error } = await supabaseClient
+      .from('favourites')
+      .insert({
+        user_id: userId,
+        song_id: songId,
+      })
+      .select()
+      .single();
+    return { data, error };
+  },
+
+  removeFavourite: async (userId, songId) => {
+    const { error } = await supabaseClient
+      .from('favourites')
+      .delete()
+      .eq('user_id', userId)
+      .eq('song_id', songId);
+    return { data: null, error };
+  },
+};
+
+// Favourites kept in the on-device database
+export const localFavouritesRepository: FavouritesRepository = {
+  fetchFavourites: async (userId) => {
+    const database = await getLocalDatabase();
+    const favourites = database.favourites
+      .filter(favourite => favourite.user_id === userId)
+      .map(favourite => {
+        const song = database.songs.find(candidate => candidate.id === favourite.song_id);
+        return { ...favourite, song: song ? toSongSummary(song) : undefined };
+      });
+    return { data: favourites, error: null };
+  },
+
+  addFavourite: async (userId, songId) => {
+    const database = await getLocalDatabase();
+    if (database.favourites.some(favourite => favourite.user_id === userId && favourite.song_id === songId)) {
+      return { data: null, error: uniqueViolation('favourites_user_id_song_id_key') };
+    }
+
+    const favourite: Favourite = {
+      id: nextLocalId(database),
+      user_id: userId,
+      song_id: songId,
+      created_at: new Date().toISOString(),
+    };
+    database.favourites.push(favourite);
+    await saveLocalDatabase(database);
+    return { data: favourite, error: null };
+  },
+
+  removeFavourite: async (userId, songId) => {
+    const database = await getLocalDatabase();
+    database.favourites = database.favourites.filter(
+      favourite => !(favourite.user_id === userId && favourite.song_id === songId)
+    );
+    await saveLocalDatabase(database);
+    return { data: null, error: null };
+  },
+};
+
+export const favouritesRepository: FavouritesRepository =
+  DATA_SOURCE === 'local' ? localFavouritesRepository : supabaseFavouritesRepository;
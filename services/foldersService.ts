@@ -0,0 +1,237 @@
+import {
+  supabaseClient,
+  DATA_SOURCE,
+  Folder,
+  FolderSummary,
+  SongFolder,
+  SongSummary,
+  RepositoryResult,
+  SONG_INDEX_COLUMNS,
+} from '../constants/Config';
+import {
+  getLocalDatabase,
+  nextLocalId,
+  notFound,
+  saveLocalDatabase,
+  toSongSummary,
+  uniqueViolation,
+} from './localDatabase';
+import { fromSongRow, SongRow } from './songsService';
+import { summarizeFolders } from '../utils/folderMemberships';
+
+export interface FoldersRepository {
+  fetchFolders: (userId: string) => Promise<RepositoryResult<Folder[]>>;
+  createFolder: (userId: string, name: string) => Promise<RepositoryResult<Folder>>;
+  updateFolder: (userId: string, id: number, name: string) => Promise<RepositoryResult<Folder>>;
+  deleteFolder: (userId: string, id: number) => Promise<RepositoryResult<null>>;
+
+  // Song counts and last change for all of the user's folders, in one round trip
+  fetchFolderSummaries: (userId: string) => Promise<RepositoryResult<FolderSummary[]>>;
+
+  // Folder contents
+  fetchFolderMemberships: (userId: string) => Promise<RepositoryResult<SongFolder[]>>;
+  getFolderSongs: (folderId: number) => Promise<RepositoryResult<SongSummary[]>>;
+  addSongToFolder: (songId: number, folderId: number) => Promise<RepositoryResult<SongFolder>>;
+  removeSongFromFolder: (songId: number, folderId: number) => Promise<RepositoryResult<null>>;
+}
+
+export const supabaseFoldersRepository: FoldersRepository = {
+  fetchFolders: async (userId) => {
+    const { data, error } = await supabaseClient
+      .from('folders')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name');
+    return { data, error };
+  },
+
+  createFolder: async (userId, name) => {
+    const { data, error } = await supabaseClient
+      .from('folders')
+      .insert({
+        user_id: userId,
+        name,
+      })
+      .select()
+      .single();
+    return { data, error };
+  },
+
+  updateFolder: async (userId, id, name) => {
+    const { data, error } = await supabaseClient
+      .from('folders')
+      .update({ name })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .single();
+    return { data, error };
+  },
+
+  deleteFolder: async (userId, id) => {
+    const { error } = await supabaseClient
+      .from('folders')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+    return { data: null, error };
+  },
+
+  fetchFolderSummaries: async (userId) => {
+    const { data, error } = await supabaseClient
+      .from('folder_summaries')
+      .select('folder_id, song_count, last_modified')
+      .eq('user_id', userId);
+    return { data, error };
+  },
+
+  fetchFolderMemberships: async (userId) => {
+    const { data, error } = await supabaseClient
+      .from('song_folders')
+      .select('id, folder_id, song_id, created_at, folders!inner(user_id)')
+      .eq('folders.user_id', userId);
+    // Drop the embedded folder used for filtering
+    const memberships = data?.map(({ folders, ...membership }) => membership as SongFolder) ?? null;
+    return { data: memberships, error };
+  },
+
+  getFolderSongs: async (folderId) => {
+    const { data, error } = await supabaseClient
+      .from('song_folders')
+      .select(`
+        song:songs(${SONG_INDEX_COLUMNS})
+      `)
+      .eq('folder_id', folderId)
+      .order('created_at', { ascending: true })
+      .overrideTypes<{ song: SongRow<SongSummary> | null }[], { merge: false }>();
+
+    const songs = (data || []).flatMap(({ song }) => song ? [fromSongRow<SongSummary>(song)] : []);
+    return { data: error ? null : songs, error };
+  },
+
+  addSongToFolder: async (songId, folderId) => {
+    const { data, error } = await supabaseClient
+      .from('song_folders')
+      .insert({
+        song_id: songId,
+        folder_id: folderId,
+      })
+      .select()
+      .single();
+    return { data, error };
+  },
+
+  removeSongFromFolder: async (songId, folderId) => {
+    const { error } = await supabaseClient
+      .from('song_folders')
+      .delete()
+      .eq('song_id', songId)
+      .eq('folder_id', folderId);
+    return { data: null, error };
+  },
+};
+
+// Folders kept in the on-device database
+export const localFoldersRepository: FoldersRepository = {
+  fetchFolders: async (userId) => {
+    const database = await getLocalDatabase();
+    const folders = database.folders
+      .filter(folder => folder.user_id === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return { data: folders, error: null };
+  },
+
+  createFolder: async (userId, name) => {
+    const database = await getLocalDatabase();
+    if (database.folders.some(folder => folder.user_id === userId && folder.name === name)) {
+      return { data: null, error: uniqueViolation('folders_user_name_unique') };
+    }
+
+    const now = new Date().toISOString();
+    const folder: Folder = { id: nextLocalId(database), user_id: userId, name, created_at: now, updated_at: now };
+    database.folders.push(folder);
+    await saveLocalDatabase(database);
+    return { data: folder, error: null };
+  },
+
+  updateFolder: async (userId, id, name) => {
+    const database = await getLocalDatabase();
+    const folder = database.folders.find(candidate => candidate.id === id && candidate.user_id === userId);
+    if (!folder) {
+      return { data: null, error: notFound('Folder not found') };
+    }
+    if (database.folders.some(other => other.id !== id && other.user_id === userId && other.name === name)) {
+      return { data: null, error: uniqueViolation('folders_user_name_unique') };
+    }
+
+    folder.name = name;
+    folder.updated_at = new Date().toISOString();
+    await saveLocalDatabase(database);
+    return { data: { ...folder }, error: null };
+  },
+
+  deleteFolder: async (userId, id) => {
+    const database = await getLocalDatabase();
+    database.folders = database.folders.filter(folder => !(folder.id === id && folder.user_id === userId));
+    // Mirrors ON DELETE CASCADE on song_folders.folder_id
+    database.songFolders = database.songFolders.filter(songFolder => songFolder.folder_id !== id);
+    await saveLocalDatabase(database);
+    return { data: null, error: null };
+  },
+
+  fetchFolderSummaries: async (userId) => {
+    const database = await getLocalDatabase();
+    const folders = database.folders.filter(folder => folder.user_id === userId);
+    return { data: summarizeFolders(folders, database.songFolders), error: null };
+  },
+
+  fetchFolderMemberships: async (userId) => {
+    const database = await getLocalDatabase();
+    const folderIds = new Set(database.folders.filter(folder => folder.user_id === userId).map(folder => folder.id));
+    return { data: database.songFolders.filter(songFolder => folderIds.has(songFolder.folder_id)), error: null };
+  },
+
+  getFolderSongs: async (folderId) => {
+    const database = await getLocalDatabase();
+    const songs = database.songFolders
+      .filter(songFolder => songFolder.folder_id === folderId)
+      .map(songFolder => database.songs.find(song => song.id === songFolder.song_id))
+      .filter((song): song is NonNullable<typeof song> => song !== undefined)
+      .map(toSongSummary);
+    return { data: songs, error: null };
+  },
+
+  addSongToFolder: async (songId, folderId) => {
+    const database = await getLocalDatabase();
+    if (database.songFolders.some(songFolder => songFolder.song_id === songId && songFolder.folder_id === folderId)) {
+      return { data: null, error: uniqueViolation('song_folders_folder_song_unique') };
+    }
+
+    const songFolder: SongFolder = {
+      id: nextLocalId(database),
+      song_id: songId,
+      folder_id: folderId,
+      created_at: new Date().toISOString(),
+    };
+    database.songFolders.push(songFolder);
+    await saveLocalDatabase(database);
+    return { data: songFolder, error: null };
+  },
+
+  removeSongFromFolder: async (songId, folderId) => {
+    const database = await getLocalDatabase();
+    database.songFolders = database.songFolders.filter(
+      songFolder => !(songFolder.song_id === songId && songFolder.folder_id === folderId)
+    );
+    // Like touch_folder_on_song_change, so the folder's last change includes removals
+    const folder = database.folders.find(candidate => candidate.id === folderId);
+    if (folder) {
+      folder.updated_at = new Date().toISOString();
+    }
+    await saveLocalDatabase(database);
+    return { data: null, error: null };
+  },
+};
+
+export const foldersRepository: FoldersRepository =
+  DATA_SOURCE === 'local' ? localFoldersRepository : supabaseFoldersRepository;
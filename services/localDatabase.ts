@@ -0,0 +1,62 @@
+import { Favourite, Folder, RepositoryError, Song, SongFolder, SongSummary } from '../constants/Config';
+import { appStorage } from '../utils/storage';
+import { SEED_SONGS } from './seedData';
+
+// On-device stand-in for the Supabase tables, used by the local repositories
+export interface LocalDatabase {
+  songs: Song[];
+  favourites: Favourite[];
+  folders: Folder[];
+  songFolders: SongFolder[];
+  nextId: number;
+}
+
+const LOCAL_DATABASE_KEY = 'songbook_local_database';
+
+let databasePromise: Promise<LocalDatabase> | null = null;
+
+const createSeedDatabase = (): LocalDatabase => ({
+  songs: SEED_SONGS.map(song => ({ ...song })),
+  favourites: [],
+  folders: [],
+  songFolders: [],
+  nextId: 1,
+});
+
+export const getLocalDatabase = (): Promise<LocalDatabase> => {
+  if (!databasePromise) {
+    databasePromise = appStorage.getItem(LOCAL_DATABASE_KEY)
+      .then(databaseString => (databaseString ? JSON.parse(databaseString) : createSeedDatabase()))
+      .catch(error => {
+        console.error('Error loading local database, starting from seed data:', error);
+        return createSeedDatabase();
+      });
+  }
+  return databasePromise;
+};
+
+export const saveLocalDatabase = async (database: LocalDatabase): Promise<void> => {
+  await appStorage.setItem(LOCAL_DATABASE_KEY, JSON.stringify(database));
+};
+
+export const nextLocalId = (database: LocalDatabase): number => database.nextId++;
+
+// Postgres errors the Supabase backend would report for the same operation
+export const uniqueViolation = (constraint: string): RepositoryError => ({
+  message: `duplicate key value violates unique constraint "${constraint}"`,
+  code: '23505',
+});
+
+export const notFound = (message: string): RepositoryError => ({ message, code: 'PGRST116' });
+
+export const toSongSummary = (song: Song): SongSummary => ({
+  id: song.id,
+  song_number: song.song_number,
+  title: song.title,
+  first_line: song.first_line,
+  created_at: song.created_at,
+  updated_at: song.updated_at,
+  lyrics_updated_at: song.lyrics_updated_at,
+  topic_ids: song.topic_ids || [],
+  scripture_refs: song.scripture_refs || [],
+});
@@ -0,0 +1,94 @@
+import { Song, Topic } from '../constants/Config';
+import { getFirstLine } from '../utils/helpers';
+import { parseScriptureReferences } from '../utils/scripture';
+
+// Sample songs from database/setup_final.sql, used when DATA_SOURCE is 'local'
+const SEED_TIMESTAMP = '2024-01-01T00:00:00';
+
+// Topics from database/topics.sql
+export const SEED_TOPICS: Topic[] = [
+  'Advent',
+  'Christmas',
+  'Lent',
+  'Easter',
+  'Pentecost',
+  'Praise & Adoration',
+  'Faith & Trust',
+  'Comfort & Peace',
+  'Communion',
+  'Baptism',
+  'Thanksgiving',
+  'Funeral',
+].map((name, index) => ({ id: index + 1, name, sort_order: (index + 1) * 10 }));
+
+// Song id -> topic ids, as tagged in database/topics.sql
+const SEED_SONG_TOPICS: { [songId: number]: number[] } = {
+  1: [7, 12],
+  2: [6],
+  3: [8, 12],
+  4: [7, 8],
+  5: [6],
+  6: [7, 11],
+  7: [3, 9],
+  8: [4, 7],
+};
+
+// Song id -> passages, as in database/scripture.sql
+const SEED_SONG_SCRIPTURE: { [songId: number]: string } = {
+  1: 'Eph 2:8-9; 1 Chr 17:16-17',
+  2: 'Ps 8:3-9',
+  3: 'Ps 46:10',
+  4: 'Isa 66:12; Phil 4:7',
+  5: 'Isa 6:1-3; Rev 4:8-11',
+  6: 'Lam 3:22-23',
+  7: 'John 3:16; Isa 53:4-5',
+  8: '1 Cor 15:55-57; Acts 4:12',
+};
+
+const seedSong = (id: number, title: string, lyrics: string): Song => ({
+  id,
+  song_number: id,
+  title,
+  lyrics,
+  first_line: getFirstLine(lyrics),
+  created_at: SEED_TIMESTAMP,
+  updated_at: SEED_TIMESTAMP,
+  lyrics_updated_at: SEED_TIMESTAMP,
+  topic_ids: SEED_SONG_TOPICS[id] || [],
+  scripture_refs: parseScriptureReferences(SEED_SONG_SCRIPTURE[id] || '') || [],
+});
+
+export const SEED_SONGS: Song[] = [
+  seedSong(1, 'Amazing Grace', `Amazing grace, how sweet the sound
+That saved a wretch like me
+I once was lost, but now am found
+Was blind, but now I see`),
+  seedSong(2, 'How Great Thou Art', `O Lord my God, when I in awesome wonder
+Consider all the works thy hands have made
+I see the stars, I hear the rolling thunder
+Thy power throughout the universe displayed`),
+  seedSong(3, 'Be Still My Soul', `Be still, my soul: the Lord is on thy side
+Bear patiently the cross of grief or pain
+Leave to thy God to order and provide
+In every change, he faithful will remain`),
+  seedSong(4, 'It Is Well With My Soul', `When peace, like a river, attendeth my way
+When sorrows like sea billows roll
+Whatever my lot, thou hast taught me to say
+It is well, it is well with my soul`),
+  seedSong(5, 'Holy, Holy, Holy', `Holy, holy, holy! Lord God Almighty!
+Early in the morning our song shall rise to thee
+Holy, holy, holy! Merciful and mighty!
+God in three persons, blessed Trinity!`),
+  seedSong(6, 'Great is Thy Faithfulness', `Great is thy faithfulness, O God my Father
+There is no shadow of turning with thee
+Thou changest not, thy compassions they fail not
+As thou hast been, thou forever will be`),
+  seedSong(7, "How Deep the Father's Love", `How deep the Father's love for us
+How vast beyond all measure
+That he should give his only Son
+To make a wretch his treasure`),
+  seedSong(8, 'In Christ Alone', `In Christ alone my hope is found
+He is my light, my strength, my song
+This cornerstone, this solid ground
+Firm through the fiercest drought and storm`),
+];
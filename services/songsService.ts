@@ -0,0 +1,277 @@
+import {
+  supabaseClient,
+  APP_CONFIG,
+  DATA_SOURCE,
+  Song,
+  SongSearchPage,
+  SongSummary,
+  SongTombstone,
+  RepositoryResult,
+  SONG_INDEX_COLUMNS,
+  Topic,
+} from '../constants/Config';
+import { getLocalDatabase, notFound, toSongSummary } from './localDatabase';
+import { SEED_TOPICS } from './seedData';
+import { buildSearchIndex, searchIndex } from '../utils/songSearch';
+import { findSongsByScripture, parseScriptureReferences } from '../utils/scripture';
+
+export interface SongChanges {
+  songs: SongSummary[];
+  tombstones: SongTombstone[];
+}
+
+export interface SongLyrics {
+  lyrics: string;
+  updated_at?: string;
+  lyrics_updated_at?: string;
+}
+
+// Song row with its song_topics rows embedded (see SONG_INDEX_COLUMNS)
+export type SongRow<T extends SongSummary> = Omit<T, 'topic_ids'> & { song_topics?: { topic_id: number }[] | null };
+
+export const fromSongRow = <T extends SongSummary>({ song_topics, ...song }: SongRow<T>): T => ({
+  ...song,
+  topic_ids: (song_topics || []).map(songTopic => songTopic.topic_id),
+} as T);
+
+// Row returned by the search_songs database function (database/song_search.sql)
+type SongSearchRow = SongRow<SongSummary> & {
+  rank: number;
+  total_count: number;
+};
+
+export interface SongsRepository {
+  fetchSongIndex: () => Promise<RepositoryResult<SongSummary[]>>;
+  // Songs changed and deleted at or after the given server timestamp
+  fetchSongChanges: (since: string) => Promise<RepositoryResult<SongChanges>>;
+  getSong: (id: number) => Promise<RepositoryResult<Song>>;
+  getLyrics: (id: number) => Promise<RepositoryResult<SongLyrics>>;
+  // One page of songs matching the query, starting at offset
+  searchSongs: (query: string, offset: number, signal?: AbortSignal) => Promise<RepositoryResult<SongSearchPage>>;
+  // Every topic, in topical index order
+  fetchTopics: () => Promise<RepositoryResult<Topic[]>>;
+}
+
+// One page of search_songs results, leaving out the given songs
+const searchSongsText = async (
+  query: string,
+  offset: number,
+  pageSize: number,
+  excludeIds: number[],
+  signal?: AbortSignal
+): Promise<RepositoryResult<SongSearchPage>> => {
+  // The query goes to Postgres as a parameter; search_songs never treats it as syntax
+  let request = supabaseClient.rpc('search_songs', {
+    search_query: query,
+    page_size: pageSize,
+    page_offset: offset,
+    exclude_ids: excludeIds,
+  });
+  if (signal) {
+    request = request.abortSignal(signal);
+  }
+  const { data, error } = await request;
+  if (error) {
+    return { data: null, error };
+  }
+
+  const rows: SongSearchRow[] = data || [];
+  return {
+    data: {
+      songs: rows.map(({ rank, total_count, ...row }) => fromSongRow<SongSummary>(row)),
+      // Every row carries the total; a page past the end has none
+      total: rows.length > 0 ? Number(rows[0].total_count) : offset,
+    },
+    error: null,
+  };
+};
+
+export const supabaseSongsRepository: SongsRepository = {
+  fetchSongIndex: async () => {
+    const { data, error } = await supabaseClient
+      .from('songs')
+      .select(SONG_INDEX_COLUMNS)
+      .order('song_number', { ascending: true });
+    return { data: data ? data.map(row => fromSongRow<SongSummary>(row)) : null, error };
+  },
+
+  fetchSongChanges: async (since) => {
+    const [changedResult, tombstonesResult] = await Promise.all([
+      supabaseClient
+        .from('songs')
+        .select(SONG_INDEX_COLUMNS)
+        .gte('updated_at', since)
+        .order('song_number', { ascending: true }),
+      supabaseClient
+        .from('song_tombstones')
+        .select('song_id, deleted_at')
+        .gte('deleted_at', since),
+    ]);
+
+    const error = changedResult.error || tombstonesResult.error;
+    if (error) {
+      return { data: null, error };
+    }
+
+    return {
+      data: {
+        songs: (changedResult.data || []).map(row => fromSongRow<SongSummary>(row)),
+        tombstones: tombstonesResult.data || [],
+      },
+      error: null,
+    };
+  },
+
+  getSong: async (id) => {
+    const { data, error } = await supabaseClient
+      .from('songs')
+      .select('*, song_topics(topic_id)')
+      .eq('id', id)
+      .single();
+    return { data: data ? fromSongRow<Song>(data) : null, error };
+  },
+
+  getLyrics: async (id) => {
+    const { data, error } = await supabaseClient
+      .from('songs')
+      .select('lyrics, updated_at, lyrics_updated_at')
+      .eq('id', id)
+      .single();
+    return { data, error };
+  },
+
+  searchSongs: async (query, offset, signal) => {
+    const references = parseScriptureReferences(query);
+    if (!references) {
+      return searchSongsText(query, offset, APP_CONFIG.searchPageSize, [], signal);
+    }
+
+    // Postgres can't compare passages, so fetch the songs with a passage in the same books and
+    // keep the ones that overlap
+    const books = [...new Set(references.map(reference => reference.book))];
+    const results = await Promise.all(books.map(book => {
+      let bookRequest = supabaseClient
+        .from('songs')
+        .select(SONG_INDEX_COLUMNS)
+        .contains('scripture_refs', [{ book }]);
+      if (signal) {
+        bookRequest = bookRequest.abortSignal(signal);
+      }
+      return bookRequest;
+    }));
+
+    const failed = results.find(result => result.error);
+    if (failed) {
+      return { data: null, error: failed.error };
+    }
+
+    const candidates = new Map<number, SongSummary>();
+    results.forEach(result => (result.data || []).forEach(row => {
+      const song = fromSongRow<SongSummary>(row);
+      candidates.set(song.id, song);
+    }));
+    const passageSongs = findSongsByScripture([...candidates.values()], references);
+
+    // Passage matches come first, then the text matches for the same words (as on the device).
+    // A page full of passages still asks for one text row, to learn how many there are
+    const pagePassages = passageSongs.slice(offset, offset + APP_CONFIG.searchPageSize);
+    const textPageSize = APP_CONFIG.searchPageSize - pagePassages.length;
+    const { data: textPage, error } = await searchSongsText(
+      query,
+      Math.max(offset - passageSongs.length, 0),
+      Math.max(textPageSize, 1),
+      passageSongs.map(song => song.id),
+      signal
+    );
+    if (error || !textPage) {
+      return { data: null, error };
+    }
+
+    return {
+      data: {
+        songs: [...pagePassages, ...textPage.songs.slice(0, textPageSize)],
+        total: passageSongs.length + textPage.total,
+      },
+      error: null,
+    };
+  },
+
+  fetchTopics: async () => {
+    const { data, error } = await supabaseClient
+      .from('topics')
+      .select('id, name, sort_order')
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true });
+    return { data, error };
+  },
+};
+
+// Songs from the on-device seed catalog
+export const localSongsRepository: SongsRepository = {
+  fetchSongIndex: async () => {
+    const database = await getLocalDatabase();
+    const songs = [...database.songs].sort((a, b) => a.song_number - b.song_number);
+    return { data: songs.map(toSongSummary), error: null };
+  },
+
+  fetchSongChanges: async (since) => {
+    const database = await getLocalDatabase();
+    const songs = database.songs
+      .filter(song => (song.updated_at || '') >= since)
+      .sort((a, b) => a.song_number - b.song_number);
+    // The local catalog never deletes songs
+    return { data: { songs: songs.map(toSongSummary), tombstones: [] }, error: null };
+  },
+
+  getSong: async (id) => {
+    const database = await getLocalDatabase();
+    const song = database.songs.find(candidate => candidate.id === id);
+    return song ? { data: song, error: null } : { data: null, error: notFound('Song not found') };
+  },
+
+  getLyrics: async (id) => {
+    const database = await getLocalDatabase();
+    const song = database.songs.find(candidate => candidate.id === id);
+    return song
+      ? { data: { lyrics: song.lyrics, updated_at: song.updated_at, lyrics_updated_at: song.lyrics_updated_at }, error: null }
+      : { data: null, error: notFound('Song not found') };
+  },
+
+  searchSongs: async (query, offset) => {
+    const database = await getLocalDatabase();
+    const trimmedQuery = query.trim();
+
+    // Same matching as search_songs: number prefixes, or every word in the title or lyrics.
+    // Bible references list the songs based on an overlapping passage ahead of the text matches
+    let songs: SongSummary[];
+    if (/^\d+$/.test(trimmedQuery)) {
+      songs = database.songs
+        .filter(song => song.song_number.toString().startsWith(trimmedQuery))
+        .sort((a, b) => a.song_number - b.song_number)
+        .map(toSongSummary);
+    } else {
+      const references = parseScriptureReferences(trimmedQuery);
+      const passageSongs = references ? findSongsByScripture(database.songs.map(toSongSummary), references) : [];
+      const passageIds = new Set(passageSongs.map(song => song.id));
+      const index = buildSearchIndex(
+        database.songs.map(toSongSummary),
+        new Map(database.songs.map(song => [song.id, song.lyrics]))
+      );
+      songs = [
+        ...passageSongs,
+        ...searchIndex(index, trimmedQuery).map(match => match.song).filter(song => !passageIds.has(song.id)),
+      ];
+    }
+
+    return {
+      data: { songs: songs.slice(offset, offset + APP_CONFIG.searchPageSize), total: songs.length },
+      error: null,
+    };
+  },
+
+  // Topics are curated, so the local catalog always uses the seed list
+  fetchTopics: async () => ({ data: SEED_TOPICS, error: null }),
+};
+
+export const songsRepository: SongsRepository =
+  DATA_SOURCE === 'local' ? localSongsRepository : supabaseSongsRepository;
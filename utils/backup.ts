@@ -0,0 +1,177 @@
+import {
+  APP_CONFIG,
+  ApiResponse,
+  BackupConflict,
+  BackupFolderPlan,
+  BackupImportPlan,
+  Favourite,
+  Folder,
+  LibraryBackup,
+  SongFolder,
+  SongReference,
+  SongSummary,
+} from '../constants/Config';
+import { createAppError } from './errors';
+
+// Portable library backups: favourites and folders as JSON, with songs referenced by songbook
+// and number so a file can be restored into another account or after a reinstall.
+
+export const BACKUP_FORMAT = 'singhisword-library';
+
+// Bump when the file layout changes; older files must keep importing
+export const BACKUP_VERSION = 1;
+
+const toReference = (song: SongSummary): SongReference => ({
+  number: song.song_number,
+  songbook: APP_CONFIG.songbook,
+});
+
+export const createBackup = (
+  userId: string,
+  songs: SongSummary[],
+  favourites: Favourite[],
+  folders: Folder[],
+  memberships: SongFolder[]
+): LibraryBackup => {
+  const songsById = new Map(songs.map(song => [song.id, song]));
+  const referencesFor = (songIds: number[]): SongReference[] =>
+    songIds
+      .map(songId => songsById.get(songId))
+      .filter((song): song is SongSummary => song !== undefined)
+      .map(toReference);
+  const byCreatedAt = <T extends { created_at?: string }>(a: T, b: T) =>
+    (a.created_at || '').localeCompare(b.created_at || '');
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    favourites: referencesFor(
+      favourites
+        .filter(fav => fav.user_id === userId)
+        .sort(byCreatedAt)
+        .map(fav => fav.song_id)
+    ),
+    folders: folders
+      .filter(folder => folder.user_id === userId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(folder => ({
+        name: folder.name,
+        songs: referencesFor(
+          memberships
+            .filter(membership => membership.folder_id === folder.id)
+            .sort(byCreatedAt)
+            .map(membership => membership.song_id)
+        ),
+      })),
+  };
+};
+
+export const getBackupFileName = (date: Date = new Date()): string =>
+  `${APP_CONFIG.name.toLowerCase()}-library-${date.toISOString().slice(0, 10)}.json`;
+
+const isSongReference = (value: any): value is SongReference =>
+  typeof value === 'object' && value !== null &&
+  Number.isInteger(value.number) && typeof value.songbook === 'string';
+
+// Read a backup file, rejecting anything that isn't a library backup this version understands
+export const parseBackup = (contents: string): ApiResponse<LibraryBackup> => {
+  const invalid = (message: string) => ({ data: null, error: createAppError('validation', message) });
+
+  let backup: any;
+  try {
+    backup = JSON.parse(contents);
+  } catch {
+    return invalid("This file isn't a library backup.");
+  }
+
+  if (typeof backup !== 'object' || backup === null || backup.format !== BACKUP_FORMAT) {
+    return invalid("This file isn't a library backup.");
+  }
+  if (typeof backup.version !== 'number' || backup.version > BACKUP_VERSION) {
+    return invalid('This backup was made by a newer version of the app. Please update and try again.');
+  }
+  if (
+    !Array.isArray(backup.favourites) || !backup.favourites.every(isSongReference) ||
+    !Array.isArray(backup.folders) || !backup.folders.every((folder: any) =>
+      typeof folder === 'object' && folder !== null &&
+      typeof folder.name === 'string' && folder.name.trim().length > 0 &&
+      Array.isArray(folder.songs) && folder.songs.every(isSongReference)
+    )
+  ) {
+    return invalid('This backup file is damaged and can\'t be imported.');
+  }
+
+  return { data: backup as LibraryBackup, error: null };
+};
+
+// Work out what importing a backup would do for this user, and what it can't do
+export const planBackupImport = (
+  backup: LibraryBackup,
+  userId: string,
+  songs: SongSummary[],
+  favourites: Favourite[],
+  folders: Folder[],
+  memberships: SongFolder[]
+): BackupImportPlan => {
+  const conflicts: BackupConflict[] = [];
+  const songIdsByNumber = new Map(songs.map(song => [song.song_number, song.id]));
+
+  const resolve = (references: SongReference[], location: string): number[] => {
+    const songIds: number[] = [];
+    references.forEach(reference => {
+      const songId = reference.songbook === APP_CONFIG.songbook
+        ? songIdsByNumber.get(reference.number)
+        : undefined;
+      if (songId === undefined) {
+        conflicts.push({ type: 'unknown_song', reference, location });
+      } else if (!songIds.includes(songId)) {
+        songIds.push(songId);
+      }
+    });
+    return songIds;
+  };
+
+  const favouriteIds = new Set(favourites.filter(fav => fav.user_id === userId).map(fav => fav.song_id));
+  const favouriteSongIds = resolve(backup.favourites, 'Favourites').filter(songId => !favouriteIds.has(songId));
+
+  const userFolders = folders.filter(folder => folder.user_id === userId);
+  const folderPlans: BackupFolderPlan[] = [];
+  backup.folders.forEach(({ name, songs: references }) => {
+    const trimmedName = name.trim();
+    const existing = userFolders.find(folder => folder.name === trimmedName);
+    const existingSongIds = new Set(
+      memberships.filter(membership => membership.folder_id === existing?.id).map(membership => membership.song_id)
+    );
+    const songIds = resolve(references, trimmedName).filter(songId => !existingSongIds.has(songId));
+
+    // Folders listed twice in the file are merged
+    const planned = folderPlans.find(plan => plan.name === trimmedName);
+    if (planned) {
+      planned.songIds.push(...songIds.filter(songId => !planned.songIds.includes(songId)));
+      return;
+    }
+
+    if (existing) {
+      conflicts.push({ type: 'duplicate_folder', folderName: trimmedName });
+    }
+    folderPlans.push({
+      name: trimmedName,
+      existingFolderId: existing?.id ?? null,
+      songIds,
+    });
+  });
+
+  return { favouriteSongIds, folders: folderPlans, conflicts };
+};
+
+export const describeConflict = (conflict: BackupConflict): string => {
+  switch (conflict.type) {
+    case 'duplicate_folder':
+      return `You already have a folder called "${conflict.folderName}" - its songs will be added to it`;
+    case 'unknown_song':
+      return conflict.reference.songbook === APP_CONFIG.songbook
+        ? `Song ${conflict.reference.number} in ${conflict.location} isn't in the songbook and will be skipped`
+        : `Song ${conflict.reference.number} in ${conflict.location} is from another songbook (${conflict.reference.songbook}) and will be skipped`;
+  }
+};
@@ -0,0 +1,52 @@
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+// Getting backup files in and out of the app: browser download/upload on web, the share sheet
+// and document picker on iOS and Android.
+
+const BACKUP_MIME_TYPE = 'application/json';
+
+// Hand a backup to the user: downloads it on web, opens the share sheet on native
+export const saveBackupFile = async (fileName: string, contents: string): Promise<void> => {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([contents], { type: BACKUP_MIME_TYPE }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Some browsers start the download after click() returns; revoking now would cancel it
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(fileUri, contents);
+  await Sharing.shareAsync(fileUri, {
+    mimeType: BACKUP_MIME_TYPE,
+    UTI: 'public.json',
+    dialogTitle: 'Export library',
+  });
+};
+
+// Let the user choose a backup file and return its contents (null if they cancelled)
+export const pickBackupFile = async (): Promise<string | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: [BACKUP_MIME_TYPE, 'text/plain'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const [asset] = result.assets;
+  if (Platform.OS === 'web') {
+    return asset.file ? asset.file.text() : (await fetch(asset.uri)).text();
+  }
+  return FileSystem.readAsStringAsync(asset.uri);
+};
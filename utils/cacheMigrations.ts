@@ -0,0 +1,130 @@
+import { CacheData } from '../constants/Config';
+import { getFirstLine } from './helpers';
+
+// Bump this and register an upgrade step whenever the shape of cached data changes
+export const CACHE_VERSION = 6;
+
+// Caches written before versioning was added
+const LEGACY_CACHE_VERSION = 1;
+
+type RawCache = { [key: string]: any };
+
+const isObject = (value: unknown): value is RawCache =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+
+// Upgrade steps keyed by the version they upgrade *from*
+const CACHE_MIGRATIONS: { [fromVersion: number]: (cache: RawCache) => RawCache } = {
+  // v1 -> v2: add the version field and drop records missing the fields screens rely on
+  1: (cache) => ({
+    ...cache,
+    songs: asArray(cache.songs).filter(
+      song => isObject(song) && typeof song.id === 'number' && typeof song.song_number === 'number'
+    ).map(song => ({
+      ...song,
+      title: typeof song.title === 'string' ? song.title : '',
+      lyrics: typeof song.lyrics === 'string' ? song.lyrics : '',
+    })),
+    favourites: asArray(cache.favourites).filter(
+      favourite => isObject(favourite) && typeof favourite.song_id === 'number' && typeof favourite.user_id === 'string'
+    ),
+    folders: asArray(cache.folders).filter(
+      folder => isObject(folder) && typeof folder.name === 'string' && typeof folder.user_id === 'string'
+    ),
+    lastUpdated: typeof cache.lastUpdated === 'number' ? cache.lastUpdated : 0,
+    songsWatermark: typeof cache.songsWatermark === 'string' ? cache.songsWatermark : null,
+  }),
+  // v2 -> v3: songs become a lightweight index; lyrics are moved to the per-song lyrics cache
+  // by extractInlineLyrics before this runs
+  2: (cache) => ({
+    ...cache,
+    songs: asArray(cache.songs).map(({ lyrics, ...song }) => ({
+      ...song,
+      first_line: typeof song.first_line === 'string' ? song.first_line : getFirstLine(lyrics || ''),
+    })),
+  }),
+  // v3 -> v4: folder memberships are cached alongside folders
+  3: (cache) => ({
+    ...cache,
+    folderMemberships: asArray(cache.folderMemberships).filter(
+      membership => isObject(membership) && typeof membership.song_id === 'number' && typeof membership.folder_id === 'number'
+    ),
+  }),
+  // v4 -> v5: topics are cached with the catalog. Cached songs have no topic_ids, so the
+  // watermark is dropped to make the next sync download the whole index again
+  4: (cache) => ({
+    ...cache,
+    songsWatermark: null,
+    topics: asArray(cache.topics).filter(
+      topic => isObject(topic) && typeof topic.id === 'number' && typeof topic.name === 'string'
+    ),
+  }),
+  // v5 -> v6: songs carry scripture_refs, which cached songs are missing until downloaded again
+  5: (cache) => ({
+    ...cache,
+    songsWatermark: null,
+  }),
+};
+
+export type CacheMigrationResult =
+  | { status: 'ok'; data: CacheData; migrated: boolean }
+  | { status: 'rejected'; reason: string };
+
+// Check the current-version shape before handing data to the app
+const validateCache = (cache: RawCache): string | null => {
+  if (!Array.isArray(cache.songs)) return 'songs is not a list';
+  if (!Array.isArray(cache.topics)) return 'topics is not a list';
+  if (!Array.isArray(cache.favourites)) return 'favourites is not a list';
+  if (!Array.isArray(cache.folders)) return 'folders is not a list';
+  if (!Array.isArray(cache.folderMemberships)) return 'folderMemberships is not a list';
+  if (typeof cache.lastUpdated !== 'number') return 'lastUpdated is not a number';
+  return null;
+};
+
+// Parse stored cache JSON and upgrade it to CACHE_VERSION
+export const migrateCache = (cachedDataString: string): CacheMigrationResult => {
+  let cache: unknown;
+  try {
+    cache = JSON.parse(cachedDataString);
+  } catch {
+    return { status: 'rejected', reason: 'cache is not valid JSON' };
+  }
+
+  if (!isObject(cache)) {
+    return { status: 'rejected', reason: 'cache is not an object' };
+  }
+
+  const storedVersion = cache.version ?? LEGACY_CACHE_VERSION;
+  if (typeof storedVersion !== 'number' || !Number.isInteger(storedVersion) || storedVersion < LEGACY_CACHE_VERSION) {
+    return { status: 'rejected', reason: `unknown cache version ${JSON.stringify(storedVersion)}` };
+  }
+  if (storedVersion > CACHE_VERSION) {
+    // Written by a newer app build - we can't know how to read it
+    return { status: 'rejected', reason: `cache version ${storedVersion} is newer than supported version ${CACHE_VERSION}` };
+  }
+
+  let upgraded: RawCache = cache;
+  for (let version = storedVersion; version < CACHE_VERSION; version++) {
+    const migration = CACHE_MIGRATIONS[version];
+    if (!migration) {
+      return { status: 'rejected', reason: `no migration from cache version ${version}` };
+    }
+    try {
+      upgraded = { ...migration(upgraded), version: version + 1 };
+    } catch (error) {
+      return { status: 'rejected', reason: `migration from version ${version} failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
+  const invalidReason = validateCache(upgraded);
+  if (invalidReason) {
+    return { status: 'rejected', reason: invalidReason };
+  }
+
+  return {
+    status: 'ok',
+    data: upgraded as CacheData,
+    migrated: storedVersion !== CACHE_VERSION,
+  };
+};
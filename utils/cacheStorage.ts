@@ -0,0 +1,208 @@
+import { CacheData, OutboxEntry } from '../constants/Config';
+import { CACHE_VERSION, migrateCache } from './cacheMigrations';
+import { storeLyrics } from './lyricsCache';
+import { appStorage } from './storage';
+
+// Keys shared by every account on this device. The songs catalog is public, and the device
+// settings are used while signed out and as the starting point for a new account's settings.
+export const SHARED_STORAGE_KEYS = {
+  SONG_CATALOG: 'songbook_song_catalog',
+  SONG_CATALOG_QUARANTINE: 'songbook_song_catalog_quarantine',
+  DEVICE_SETTINGS: 'songbook_settings',
+  SEARCH_HISTORY: 'songbook_search_history', // Recent searches while signed out
+  RECENTLY_VIEWED: 'songbook_recently_viewed', // Songs opened while signed out
+};
+
+// Unscoped keys written before data was stored per user
+const LEGACY_STORAGE_KEYS = {
+  CACHE_DATA: 'songbook_cache_data',
+  CACHE_QUARANTINE: 'songbook_cache_quarantine',
+  LAST_SYNC: 'songbook_last_sync',
+  OUTBOX: 'songbook_outbox',
+  FAILED_MUTATIONS: 'songbook_failed_mutations',
+};
+
+export type UserStorageKeys = {
+  CACHE_DATA: string;
+  CACHE_QUARANTINE: string;
+  SETTINGS: string;
+  LAST_SYNC: string;
+  OUTBOX: string;
+  FAILED_MUTATIONS: string;
+  SEARCH_HISTORY: string;
+  RECENTLY_VIEWED: string;
+};
+
+// Keys holding one account's private data
+export const getUserStorageKeys = (userId: string): UserStorageKeys => ({
+  CACHE_DATA: `songbook_cache_data:${userId}`,
+  CACHE_QUARANTINE: `songbook_cache_quarantine:${userId}`,
+  SETTINGS: `songbook_settings:${userId}`,
+  LAST_SYNC: `songbook_last_sync:${userId}`,
+  OUTBOX: `songbook_outbox:${userId}`,
+  FAILED_MUTATIONS: `songbook_failed_mutations:${userId}`,
+  SEARCH_HISTORY: `songbook_search_history:${userId}`,
+  RECENTLY_VIEWED: `songbook_recently_viewed:${userId}`,
+});
+
+const emptyCache = (): CacheData => ({
+  version: CACHE_VERSION,
+  songs: [],
+  topics: [],
+  favourites: [],
+  folders: [],
+  folderMemberships: [],
+  lastUpdated: 0,
+});
+
+// Split the in-memory cache into the shared catalog and the user's private library
+export const splitCacheData = (cache: CacheData): { catalog: CacheData; library: CacheData } => ({
+  catalog: {
+    ...emptyCache(),
+    songs: cache.songs,
+    topics: cache.topics,
+    songsWatermark: cache.songsWatermark ?? null,
+    lastUpdated: cache.lastUpdated,
+  },
+  library: {
+    ...emptyCache(),
+    favourites: cache.favourites,
+    folders: cache.folders,
+    folderMemberships: cache.folderMemberships,
+    lastUpdated: cache.lastUpdated,
+  },
+});
+
+// Caches before version 3 kept full lyrics on every song; move them to the lyrics cache
+// so the migration can slim the catalog down to the song index
+const extractInlineLyrics = async (cachedDataString: string): Promise<void> => {
+  if (!cachedDataString.includes('"lyrics"')) return;
+
+  try {
+    const cache = JSON.parse(cachedDataString);
+    const songs: any[] = Array.isArray(cache?.songs) ? cache.songs : [];
+    await storeLyrics(
+      songs
+        .filter(song => typeof song?.id === 'number' && typeof song.lyrics === 'string')
+        .map(song => ({ songId: song.id, lyrics: song.lyrics, updatedAt: song.updated_at || null }))
+    );
+  } catch (error) {
+    // Unreadable caches are quarantined by the caller
+    console.error('Error moving cached lyrics:', error);
+  }
+};
+
+// Read cache JSON from storage, upgrading older formats; unreadable data is moved aside
+export const readCacheData = async (key: string, quarantineKey: string): Promise<CacheData | null> => {
+  const cachedDataString = await appStorage.getItem(key);
+  if (!cachedDataString) return null;
+
+  await extractInlineLyrics(cachedDataString);
+  const result = migrateCache(cachedDataString);
+
+  if (result.status === 'rejected') {
+    console.warn('⚠️ Discarding unreadable cache:', key, result.reason);
+    await appStorage.setItem(quarantineKey, JSON.stringify({
+      reason: result.reason,
+      quarantinedAt: new Date().toISOString(),
+      data: cachedDataString,
+    }));
+    await appStorage.removeItem(key);
+    return null;
+  }
+
+  if (result.migrated) {
+    console.log('📦 Upgraded cache to version', CACHE_VERSION, key);
+    await appStorage.setItem(key, JSON.stringify(result.data));
+  }
+
+  return result.data;
+};
+
+const parseEntries = (entriesString: string | null): OutboxEntry[] => {
+  if (!entriesString) return [];
+  try {
+    const entries = JSON.parse(entriesString);
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+};
+
+// Move data stored under the old unscoped keys to the shared catalog and per-user keys.
+// Favourites, folders and queued changes go to whichever account they belong to.
+export const migrateLegacyStorage = async (): Promise<void> => {
+  const [cachedDataString, outboxString, failedString] = await Promise.all([
+    appStorage.getItem(LEGACY_STORAGE_KEYS.CACHE_DATA),
+    appStorage.getItem(LEGACY_STORAGE_KEYS.OUTBOX),
+    appStorage.getItem(LEGACY_STORAGE_KEYS.FAILED_MUTATIONS),
+  ]);
+
+  if (!cachedDataString && !outboxString && !failedString) return;
+
+  console.log('📦 Moving unscoped offline data to per-user storage');
+  const writes: [string, string][] = [];
+
+  if (cachedDataString) {
+    await extractInlineLyrics(cachedDataString);
+    const result = migrateCache(cachedDataString);
+
+    if (result.status === 'rejected') {
+      console.warn('⚠️ Dropping unreadable legacy cache:', result.reason);
+    } else {
+      const { catalog } = splitCacheData(result.data);
+      if (!(await appStorage.getItem(SHARED_STORAGE_KEYS.SONG_CATALOG))) {
+        writes.push([SHARED_STORAGE_KEYS.SONG_CATALOG, JSON.stringify(catalog)]);
+      }
+
+      const ownerIds = new Set([
+        ...result.data.favourites.map(favourite => favourite.user_id),
+        ...result.data.folders.map(folder => folder.user_id),
+      ]);
+      for (const ownerId of ownerIds) {
+        const keys = getUserStorageKeys(ownerId);
+        if (await appStorage.getItem(keys.CACHE_DATA)) continue;
+        writes.push([keys.CACHE_DATA, JSON.stringify({
+          ...emptyCache(),
+          favourites: result.data.favourites.filter(favourite => favourite.user_id === ownerId),
+          folders: result.data.folders.filter(folder => folder.user_id === ownerId),
+          lastUpdated: result.data.lastUpdated,
+        })]);
+      }
+    }
+  }
+
+  // Queued changes already record which account made them
+  const outbox = parseEntries(outboxString);
+  const failed = parseEntries(failedString);
+  const entryOwnerIds = new Set([...outbox, ...failed].map(entry => entry.userId));
+  for (const ownerId of entryOwnerIds) {
+    const keys = getUserStorageKeys(ownerId);
+    const [existingOutbox, existingFailed] = await Promise.all([
+      appStorage.getItem(keys.OUTBOX),
+      appStorage.getItem(keys.FAILED_MUTATIONS),
+    ]);
+    writes.push(
+      [keys.OUTBOX, JSON.stringify([
+        ...parseEntries(existingOutbox),
+        ...outbox.filter(entry => entry.userId === ownerId),
+      ])],
+      [keys.FAILED_MUTATIONS, JSON.stringify([
+        ...parseEntries(existingFailed),
+        ...failed.filter(entry => entry.userId === ownerId),
+      ])]
+    );
+  }
+
+  if (writes.length > 0) {
+    await appStorage.multiSet(writes);
+  }
+  await appStorage.multiRemove(Object.values(LEGACY_STORAGE_KEYS));
+};
+
+// Remove an account's private data (used on sign-out). Its settings (text size, theme, list
+// filters, lyrics view) say nothing about the person, so they stay for the next sign-in.
+export const purgeUserStorage = async (userId: string): Promise<void> => {
+  const { SETTINGS, ...privateKeys } = getUserStorageKeys(userId);
+  await appStorage.multiRemove(Object.values(privateKeys));
+};
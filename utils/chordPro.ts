@@ -0,0 +1,81 @@
+// ChordPro chords written inline in the lyrics: "[G]Amazing [C]grace, how [G]sweet". Each chord
+// applies from the syllable it's written before. Whole-line directives such as {title: ...} and
+// section markers are handled by utils/lyricsSections.ts.
+
+export type ChordProToken =
+  | { type: 'chord'; chord: string }
+  | { type: 'lyric'; text: string };
+
+// A chord and the lyrics sung from it until the next chord; the first segment of a line may
+// have no chord
+export interface ChordSegment {
+  chord: string | null;
+  text: string;
+}
+
+// Root, quality and extensions, optional bass note: G, F#m7, Bbsus4, Cmaj7/E, D(add9), N.C.
+const CHORD_PATTERN = /^(?:N\.?C\.?|[A-G][#b♯♭]?(?:maj|min|dim|aug|sus|add|m|M|[0-9]|[+°ø#b♯♭()])*(?:\/[A-G][#b♯♭]?)?)$/;
+
+const BRACKET_PATTERN = /\[([^\]\s]+)\]/g;
+
+const DIRECTIVE_LINE_PATTERN = /^\s*\{[^}]*\}\s*$/;
+
+// Bracketed text that is really a chord, not "[Verse 1]" or other notes
+export const isChord = (text: string): boolean => CHORD_PATTERN.test(text);
+
+// Split one line into chord and lyric tokens in the order written
+export const tokenizeChordPro = (line: string): ChordProToken[] => {
+  const tokens: ChordProToken[] = [];
+  let lyricStart = 0;
+
+  const pushLyric = (end: number) => {
+    if (end > lyricStart) {
+      tokens.push({ type: 'lyric', text: line.slice(lyricStart, end) });
+    }
+  };
+
+  for (const match of line.matchAll(BRACKET_PATTERN)) {
+    if (!isChord(match[1])) continue;
+    pushLyric(match.index!);
+    tokens.push({ type: 'chord', chord: match[1] });
+    lyricStart = match.index! + match[0].length;
+  }
+  pushLyric(line.length);
+
+  return tokens;
+};
+
+// Pair each chord with the lyrics that follow it, for drawing chords above their syllables
+export const toChordSegments = (tokens: ChordProToken[]): ChordSegment[] => {
+  const segments: ChordSegment[] = [];
+  tokens.forEach(token => {
+    if (token.type === 'chord') {
+      segments.push({ chord: token.chord, text: '' });
+    } else if (segments.length > 0 && segments[segments.length - 1].text === '') {
+      segments[segments.length - 1].text = token.text;
+    } else {
+      segments.push({ chord: null, text: token.text });
+    }
+  });
+  return segments;
+};
+
+export const lineHasChords = (line: string): boolean =>
+  tokenizeChordPro(line).some(token => token.type === 'chord');
+
+export const hasChords = (lyrics: string): boolean => lyrics.split('\n').some(lineHasChords);
+
+// The words of a line without its chords
+export const stripChords = (line: string): string =>
+  tokenizeChordPro(line)
+    .map(token => (token.type === 'lyric' ? token.text : ''))
+    .join('')
+    .replace(/\s{2,}/g, ' ');
+
+// Lyrics as plain text: chords removed and ChordPro directive lines dropped
+export const toPlainLyrics = (lyrics: string): string =>
+  lyrics
+    .split('\n')
+    .filter(line => !DIRECTIVE_LINE_PATTERN.test(line))
+    .map(stripChords)
+    .join('\n');
@@ -0,0 +1,103 @@
+import { APP_CONFIG, AppError, AppErrorCategory, RepositoryResult } from '../constants/Config';
+import { getBackoffDelay, isNetworkError } from './helpers';
+
+// Postgres and PostgREST error codes with a known meaning for the app
+const ERROR_CODE_CATEGORIES: { [code: string]: AppErrorCategory } = {
+  '23505': 'duplicate', // unique_violation
+  '23503': 'not_found', // foreign_key_violation - the song or folder referenced is gone
+  '23502': 'validation', // not_null_violation
+  '23514': 'validation', // check_violation
+  '22001': 'validation', // string_data_right_truncation
+  '22P02': 'validation', // invalid_text_representation
+  '42501': 'permission', // insufficient_privilege, including row level security
+  'PGRST116': 'not_found', // .single() matched no rows
+  'PGRST301': 'auth', // JWT expired or invalid
+  'PGRST302': 'auth', // Anonymous access disabled
+};
+
+// Postgres error classes that are usually temporary (connection, resources, timeouts, deadlocks)
+const TRANSIENT_ERROR_CLASSES = ['08', '40', '53', '57'];
+
+const RETRYABLE_CATEGORIES: AppErrorCategory[] = ['network', 'server'];
+
+const CATEGORY_MESSAGES: { [category in AppErrorCategory]: string } = {
+  network: "Can't reach the server. Check your connection and try again.",
+  auth: 'Your session has expired. Please sign in again.',
+  permission: "You don't have permission to do that.",
+  duplicate: 'That already exists.',
+  not_found: 'That item no longer exists. It may have been deleted on another device.',
+  validation: "That wasn't accepted. Please check what you entered.",
+  server: 'The server had a problem. Please try again in a moment.',
+  cancelled: 'The request was cancelled.',
+  unknown: 'Something went wrong. Please try again.',
+};
+
+// Messages for the unique constraints in database/setup_final.sql
+const CONSTRAINT_MESSAGES: { [constraint: string]: string } = {
+  favourites_user_song_unique: 'This song is already in your favourites.',
+  folders_user_name_unique: 'You already have a folder with this name.',
+  song_folders_folder_song_unique: 'This song is already in this folder.',
+};
+
+export const isAppError = (error: unknown): error is AppError =>
+  typeof error === 'object' &&
+  error !== null &&
+  typeof (error as AppError).category === 'string' &&
+  typeof (error as AppError).retryable === 'boolean';
+
+export const createAppError = (
+  category: AppErrorCategory,
+  message: string = CATEGORY_MESSAGES[category],
+  extra?: { code?: string; details?: string }
+): AppError => ({
+  category,
+  message,
+  retryable: RETRYABLE_CATEGORIES.includes(category),
+  ...extra,
+});
+
+const categorize = (code: string | undefined, message: string, name: string | undefined): AppErrorCategory => {
+  if (name === 'AbortError' || message.includes('AbortError')) return 'cancelled';
+  if (isNetworkError({ message, code })) return 'network';
+  if (!code) return 'unknown';
+  if (ERROR_CODE_CATEGORIES[code]) return ERROR_CODE_CATEGORIES[code];
+  if (TRANSIENT_ERROR_CLASSES.includes(code.slice(0, 2)) || /^PGRST00\d$/.test(code)) return 'server';
+  return 'unknown';
+};
+
+// Turn anything a repository returned or threw into an AppError. fallbackMessage describes the
+// operation ("Failed to load folders") and is shown when the cause isn't recognised.
+export const toAppError = (error: unknown, fallbackMessage?: string): AppError => {
+  if (isAppError(error)) return error;
+
+  const details = typeof error === 'string'
+    ? error
+    : (error as { message?: string } | null)?.message || '';
+  const code = typeof error === 'object' && error !== null
+    ? (error as { code?: string }).code || undefined
+    : undefined;
+  const name = error instanceof Error ? error.name : undefined;
+
+  const category = categorize(code, details, name);
+  const constraint = Object.keys(CONSTRAINT_MESSAGES).find(key => details.includes(key));
+  const message = (category === 'duplicate' && constraint && CONSTRAINT_MESSAGES[constraint])
+    || (category === 'unknown' && fallbackMessage)
+    || CATEGORY_MESSAGES[category];
+
+  return createAppError(category, message, { code, details: details || undefined });
+};
+
+const wait = (delay: number) => new Promise(resolve => setTimeout(resolve, delay));
+
+// Run an idempotent read, retrying with backoff while it fails with a retryable error
+export const withRetry = async <T>(
+  read: () => Promise<RepositoryResult<T>>,
+  attempts: number = APP_CONFIG.readRetryAttempts
+): Promise<RepositoryResult<T>> => {
+  let result = await read();
+  for (let attempt = 1; attempt <= attempts && result.error && toAppError(result.error).retryable; attempt++) {
+    await wait(getBackoffDelay(attempt, APP_CONFIG.readRetryBaseDelay, APP_CONFIG.readRetryBaseDelay * 8));
+    result = await read();
+  }
+  return result;
+};
@@ -0,0 +1,55 @@
+import { Folder, FolderSummary, SongFolder, SongSummary } from '../constants/Config';
+
+const latest = (a: string | null | undefined, b: string | null | undefined): string | null =>
+  !a ? b || null : !b ? a : a > b ? a : b;
+
+// Work out folder_summaries rows from folders and their song_folders rows, for when the
+// view can't be reached (offline, or the local data source)
+export const summarizeFolders = (folders: Folder[], memberships: SongFolder[]): FolderSummary[] =>
+  folders
+    .filter((folder): folder is Folder & { id: number } => folder.id !== undefined)
+    .map(folder => {
+      const folderMemberships = memberships.filter(membership => membership.folder_id === folder.id);
+      return {
+        folder_id: folder.id,
+        song_count: folderMemberships.length,
+        last_modified: folderMemberships.reduce<string | null>(
+          (lastModified, membership) => latest(lastModified, membership.created_at),
+          latest(folder.updated_at, folder.created_at)
+        ),
+      };
+    });
+
+// Songs in a folder from the cached memberships and song index, in the order they were added.
+// Songs missing from the index (not synced yet) are left out.
+export const resolveFolderSongs = (
+  folderId: number,
+  memberships: SongFolder[],
+  songs: SongSummary[]
+): SongSummary[] => {
+  const songsById = new Map(songs.map(song => [song.id, song]));
+  return memberships
+    .filter(membership => membership.folder_id === folderId)
+    .map(membership => songsById.get(membership.song_id))
+    .filter((song): song is SongSummary => song !== undefined);
+};
+
+// Cached memberships brought in line with a folder's contents as downloaded from the server.
+// Rows kept keep their ids and dates; songs new to the folder get a row without them.
+export const reconcileFolderMemberships = (
+  memberships: SongFolder[],
+  folderId: number,
+  songs: SongSummary[]
+): SongFolder[] => {
+  const serverSongIds = new Set(songs.map(song => song.id));
+  const kept = memberships.filter(
+    membership => membership.folder_id !== folderId || serverSongIds.has(membership.song_id)
+  );
+  const keptSongIds = new Set(
+    kept.filter(membership => membership.folder_id === folderId).map(membership => membership.song_id)
+  );
+  const added = songs
+    .filter(song => !keptSongIds.has(song.id))
+    .map(song => ({ song_id: song.id, folder_id: folderId }));
+  return kept.length === memberships.length && added.length === 0 ? memberships : [...kept, ...added];
+};
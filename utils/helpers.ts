@@ -0,0 +1,48 @@
+import { stripChords } from './chordPro';
+import { parseLyricsSections } from './lyricsSections';
+
+// Error message fragments produced by fetch/supabase-js when the request never reached the server
+// (e.g. "Failed to fetch", "Network request failed", "NETWORK_REQUEST_FAILED")
+const NETWORK_ERROR_PATTERNS = ['fetch', 'network', 'timed out'];
+
+// Check whether an error (thrown or returned by supabase-js) was caused by a missing connection
+export const isNetworkError = (error: unknown): boolean => {
+  if (!error) return false;
+
+  const message = typeof error === 'string'
+    ? error
+    : (error as { message?: string }).message || '';
+  const code = typeof error === 'object' ? (error as { code?: string }).code : undefined;
+
+  if (code === 'NETWORK_ERROR') return true;
+
+  const lowerMessage = message.toLowerCase();
+  return NETWORK_ERROR_PATTERNS.some(pattern => lowerMessage.includes(pattern));
+};
+
+// First sung line of a song's lyrics, without chords and skipping section markers such as
+// "[Verse 1]" or "Chorus:", matching the songs.first_line column
+export const getFirstLine = (lyrics: string): string =>
+  parseLyricsSections(lyrics)
+    .flatMap(section => section.lines)
+    .map(line => stripChords(line).trim())
+    .find(line => line.length > 0) || '';
+
+// Exponential backoff for retry number `attempt` (1-based), randomised between half and the full
+// delay so devices that failed together don't all retry at the same moment
+export const getBackoffDelay = (attempt: number, baseDelay: number, maxDelay: number): number => {
+  const delay = Math.min(maxDelay, baseDelay * 2 ** Math.max(0, attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+// Rough relative time for sync and folder indicators, e.g. "5 min ago" or "in 3 h"
+export const formatRelativeTime = (date: Date): string => {
+  const diff = date.getTime() - Date.now();
+  const minutes = Math.round(Math.abs(diff) / 60000);
+  if (minutes < 1) return diff > 0 ? 'in a moment' : 'just now';
+
+  const amount = minutes < 60
+    ? `${minutes} min`
+    : minutes < 48 * 60 ? `${Math.round(minutes / 60)} h` : `${Math.round(minutes / 1440)} days`;
+  return diff > 0 ? `in ${amount}` : `${amount} ago`;
+};
@@ -0,0 +1,188 @@
+import { APP_CONFIG } from '../constants/Config';
+import { appStorage } from './storage';
+
+// Lyrics are stored one song per storage item, with a small index tracking use and pins.
+// Pinned lyrics (songs the user has opened) are never evicted; the rest are kept up to
+// APP_CONFIG.lyricsCacheSize, least recently used first out.
+const LYRICS_INDEX_KEY = 'songbook_lyrics_index';
+const LYRICS_KEY_PREFIX = 'songbook_lyrics:';
+
+const getLyricsKey = (songId: number): string => `${LYRICS_KEY_PREFIX}${songId}`;
+
+export interface CachedLyrics {
+  lyrics: string;
+  updatedAt: string | null; // songs.updated_at the lyrics were fetched at
+}
+
+export interface LyricsCacheEntry {
+  songId: number;
+  lyrics: string;
+  updatedAt: string | null;
+}
+
+interface LyricsIndexEntry {
+  lastUsed: number;
+  pinned: boolean;
+  updatedAt: string | null;
+}
+
+type LyricsIndex = { [songId: number]: LyricsIndexEntry };
+
+// Recently used lyrics in memory; Map insertion order doubles as least-recently-used order
+const memoryCache = new Map<number, CachedLyrics>();
+let indexPromise: Promise<LyricsIndex> | null = null;
+const changeListeners = new Set<() => void>();
+
+// Tell subscribers (the search index) that stored lyrics were added or removed
+const notifyLyricsChanged = (): void => {
+  changeListeners.forEach(listener => listener());
+};
+
+export const subscribeToLyricsChanges = (listener: () => void): (() => void) => {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+};
+
+const loadIndex = (): Promise<LyricsIndex> => {
+  if (!indexPromise) {
+    indexPromise = appStorage.getItem(LYRICS_INDEX_KEY)
+      .then(indexString => (indexString ? JSON.parse(indexString) : {}))
+      .catch(error => {
+        console.error('Error loading lyrics index:', error);
+        return {};
+      });
+  }
+  return indexPromise;
+};
+
+const saveIndex = async (index: LyricsIndex): Promise<void> => {
+  await appStorage.setItem(LYRICS_INDEX_KEY, JSON.stringify(index));
+};
+
+const rememberInMemory = (songId: number, cached: CachedLyrics): void => {
+  memoryCache.delete(songId);
+  memoryCache.set(songId, cached);
+  while (memoryCache.size > APP_CONFIG.lyricsMemoryCacheSize) {
+    const oldestId = memoryCache.keys().next().value;
+    if (oldestId === undefined) break;
+    memoryCache.delete(oldestId);
+  }
+};
+
+// Drop the least recently used unpinned lyrics beyond the cache size
+const evictUnpinned = async (index: LyricsIndex): Promise<void> => {
+  const evictedIds = Object.entries(index)
+    .filter(([, entry]) => !entry.pinned)
+    .sort(([, a], [, b]) => b.lastUsed - a.lastUsed)
+    .slice(APP_CONFIG.lyricsCacheSize)
+    .map(([songId]) => Number(songId));
+
+  if (evictedIds.length === 0) return;
+
+  evictedIds.forEach(songId => {
+    delete index[songId];
+    memoryCache.delete(songId);
+  });
+  await appStorage.multiRemove(evictedIds.map(getLyricsKey));
+};
+
+// Get stored lyrics for a song, marking them as recently used
+export const getCachedLyrics = async (songId: number): Promise<CachedLyrics | null> => {
+  const index = await loadIndex();
+  const entry = index[songId];
+  if (!entry) return null;
+
+  let cached = memoryCache.get(songId);
+  if (!cached) {
+    const lyrics = await appStorage.getItem(getLyricsKey(songId));
+    if (lyrics === null) {
+      // Index and storage disagree - forget the entry
+      delete index[songId];
+      await saveIndex(index);
+      return null;
+    }
+    cached = { lyrics, updatedAt: entry.updatedAt };
+  }
+
+  rememberInMemory(songId, cached);
+  index[songId] = { ...entry, lastUsed: Date.now() };
+  await saveIndex(index);
+  return cached;
+};
+
+// Store lyrics for several songs; pinned entries stay on the device until removed
+export const storeLyrics = async (entries: LyricsCacheEntry[], options?: { pin?: boolean }): Promise<void> => {
+  if (entries.length === 0) return;
+
+  const index = await loadIndex();
+  const now = Date.now();
+
+  entries.forEach(({ songId, updatedAt }) => {
+    index[songId] = {
+      lastUsed: now,
+      pinned: options?.pin || index[songId]?.pinned || false,
+      updatedAt,
+    };
+  });
+  if (entries.length === 1) {
+    rememberInMemory(entries[0].songId, { lyrics: entries[0].lyrics, updatedAt: entries[0].updatedAt });
+  }
+
+  await appStorage.multiSet(entries.map(({ songId, lyrics }) => [getLyricsKey(songId), lyrics]));
+  await evictUnpinned(index);
+  await saveIndex(index);
+  notifyLyricsChanged();
+};
+
+// All lyrics stored on the device, for searching. Doesn't count as using them.
+export const getStoredLyrics = async (): Promise<Map<number, string>> => {
+  const index = await loadIndex();
+  const songIds = Object.keys(index).map(Number);
+  const lyrics = await Promise.all(
+    songIds.map(songId => memoryCache.get(songId)?.lyrics ?? appStorage.getItem(getLyricsKey(songId)))
+  );
+
+  const lyricsById = new Map<number, string>();
+  songIds.forEach((songId, i) => {
+    const songLyrics = lyrics[i];
+    if (songLyrics !== null) lyricsById.set(songId, songLyrics);
+  });
+  return lyricsById;
+};
+
+// Keep a song's lyrics available offline
+export const pinLyrics = async (songId: number): Promise<void> => {
+  const index = await loadIndex();
+  if (!index[songId] || index[songId].pinned) return;
+
+  index[songId] = { ...index[songId], pinned: true };
+  await saveIndex(index);
+};
+
+// Forget lyrics for songs deleted on the server
+export const removeLyrics = async (songIds: number[]): Promise<void> => {
+  const index = await loadIndex();
+  const storedIds = songIds.filter(songId => index[songId]);
+  if (storedIds.length === 0) return;
+
+  storedIds.forEach(songId => {
+    delete index[songId];
+    memoryCache.delete(songId);
+  });
+  await appStorage.multiRemove(storedIds.map(getLyricsKey));
+  await saveIndex(index);
+  notifyLyricsChanged();
+};
+
+// Remove all stored lyrics, pinned or not
+export const clearLyricsCache = async (): Promise<void> => {
+  const index = await loadIndex();
+  const songIds = Object.keys(index).map(Number);
+
+  memoryCache.clear();
+  indexPromise = Promise.resolve({});
+  await appStorage.multiRemove([LYRICS_INDEX_KEY, ...songIds.map(getLyricsKey)]);
+  notifyLyricsChanged();
+};
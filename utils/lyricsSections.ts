@@ -0,0 +1,180 @@
+// Splitting song lyrics into sections (verses, choruses, bridges...). Lyrics are stored as plain
+// text; sections come from blank lines between stanzas and from markers written on their own
+// line: "[Verse 1]", "Chorus:", a bare "Chorus" or ChordPro directives such as "{c: Chorus}" and
+// "{start_of_chorus}" ... "{end_of_chorus}". Other ChordPro directives ({title: ...}) are skipped.
+
+export type LyricsSectionType = 'verse' | 'chorus' | 'pre-chorus' | 'bridge' | 'intro' | 'outro' | 'tag' | 'other';
+
+export interface LyricsSection {
+  type: LyricsSectionType;
+  label: string; // As marked, e.g. "Verse 2" or "Refrain"; unmarked stanzas are numbered verses
+  lines: string[];
+}
+
+// Words that name a section, and the section type each one means
+const SECTION_KEYWORDS: [RegExp, LyricsSectionType][] = [
+  [/^pre[\s-]?chorus$/, 'pre-chorus'],
+  [/^(chorus|refrain)$/, 'chorus'],
+  [/^(verse|stanza)$/, 'verse'],
+  [/^bridge$/, 'bridge'],
+  [/^intro$/, 'intro'],
+  [/^(outro|ending|coda)$/, 'outro'],
+  [/^tag$/, 'tag'],
+  [/^interlude$/, 'other'],
+];
+
+// A section name, optionally numbered: "Verse 2", "Chorus 1a", "Pre-Chorus"
+const SECTION_NAME_PATTERN = /^([a-z][a-z\s-]*?)\s*(\d+[a-z]?)?$/i;
+
+const BRACKET_MARKER_PATTERN = /^\[([^\]]+)\]$/;
+const COLON_MARKER_PATTERN = /^([a-z][a-z\s-]*?\s*\d*[a-z]?)\s*:\s*(.*)$/i;
+const DIRECTIVE_PATTERN = /^\{\s*([a-z_]+)\s*(?::\s*(.*?))?\s*\}$/i;
+
+// ChordPro short directive names
+const DIRECTIVE_ALIASES: { [name: string]: string } = {
+  c: 'comment',
+  ci: 'comment',
+  cb: 'comment',
+  comment_italic: 'comment',
+  comment_box: 'comment',
+  highlight: 'comment',
+  soc: 'start_of_chorus',
+  eoc: 'end_of_chorus',
+  sov: 'start_of_verse',
+  eov: 'end_of_verse',
+  sob: 'start_of_bridge',
+  eob: 'end_of_bridge',
+};
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Section type for a name like "Verse 2" or "Refrain"; null when it doesn't name a section
+const getSectionType = (name: string): LyricsSectionType | null => {
+  const match = name.trim().match(SECTION_NAME_PATTERN);
+  if (!match) return null;
+  const keyword = match[1].trim().toLowerCase();
+  const entry = SECTION_KEYWORDS.find(([pattern]) => pattern.test(keyword));
+  return entry ? entry[1] : null;
+};
+
+type LineKind =
+  | { kind: 'blank' }
+  | { kind: 'lyric'; text: string }
+  | { kind: 'marker'; type: LyricsSectionType; label: string; text: string | null }
+  | { kind: 'start'; type: LyricsSectionType; label: string | null }
+  | { kind: 'end' }
+  | { kind: 'ignored' };
+
+const classifyLine = (rawLine: string): LineKind => {
+  const line = rawLine.trim();
+  if (!line) return { kind: 'blank' };
+
+  const directive = line.match(DIRECTIVE_PATTERN);
+  if (directive) {
+    const name = directive[1].toLowerCase();
+    const directiveName = DIRECTIVE_ALIASES[name] || name;
+    const value = directive[2]?.trim() || '';
+    if (directiveName === 'comment') {
+      return value
+        ? { kind: 'marker', type: getSectionType(value) || 'other', label: capitalize(value), text: null }
+        : { kind: 'ignored' };
+    }
+    const environment = directiveName.match(/^(start|end)_of_(\w+)$/);
+    if (environment) {
+      if (environment[1] === 'end') return { kind: 'end' };
+      const type = getSectionType(environment[2].replace(/_/g, '-')) || 'other';
+      return { kind: 'start', type, label: value ? capitalize(value) : null };
+    }
+    // Metadata such as {title: ...} or {key: G} isn't part of the lyrics
+    return { kind: 'ignored' };
+  }
+
+  const bracket = line.match(BRACKET_MARKER_PATTERN);
+  if (bracket) {
+    // "[G]" on its own is a chord, not a section
+    const type = getSectionType(bracket[1]);
+    if (type) return { kind: 'marker', type, label: capitalize(bracket[1].trim()), text: null };
+  }
+
+  const colon = line.match(COLON_MARKER_PATTERN);
+  if (colon) {
+    const type = getSectionType(colon[1]);
+    if (type) return { kind: 'marker', type, label: capitalize(colon[1].trim()), text: colon[2] || null };
+  }
+
+  // A section name alone on its line, e.g. "Chorus" to repeat the chorus
+  const bareType = getSectionType(line);
+  if (bareType) return { kind: 'marker', type: bareType, label: capitalize(line), text: null };
+
+  return { kind: 'lyric', text: line };
+};
+
+// Parse lyrics into sections in the order they're sung. A marker with no lines under it
+// ("Chorus" again after the second verse) repeats the lines of the section it names.
+export const parseLyricsSections = (lyrics: string): LyricsSection[] => {
+  const sections: LyricsSection[] = [];
+  let current: LyricsSection | null = null;
+  let isMarked = false; // current came from a marker, so it may be a repeat with no lines
+  let inEnvironment = false; // Between {start_of_...} and {end_of_...}, where blank lines don't split
+  let verseCount = 0;
+
+  const finishSection = () => {
+    if (current) {
+      if (current.lines.length === 0 && isMarked) {
+        const label = current.label.toLowerCase();
+        const repeated = [...sections].reverse().find(section => section.label.toLowerCase() === label)
+          || (current.type === 'chorus' ? [...sections].reverse().find(section => section.type === 'chorus') : undefined);
+        if (repeated) {
+          current.lines = [...repeated.lines];
+        }
+      }
+      if (current.lines.length > 0) {
+        sections.push(current);
+      }
+    }
+    current = null;
+    isMarked = false;
+  };
+
+  const startSection = (type: LyricsSectionType, label: string | null) => {
+    finishSection();
+    if (type === 'verse') verseCount++;
+    current = { type, label: label || (type === 'verse' ? `Verse ${verseCount}` : capitalize(type)), lines: [] };
+    isMarked = true;
+  };
+
+  lyrics.split(/\r?\n/).forEach(rawLine => {
+    const line = classifyLine(rawLine);
+    switch (line.kind) {
+      case 'blank':
+        // A blank line right after a marker doesn't end the section it starts
+        if (!inEnvironment && current && current.lines.length > 0) finishSection();
+        break;
+      case 'marker':
+        inEnvironment = false;
+        startSection(line.type, line.label);
+        if (line.text) current!.lines.push(line.text);
+        break;
+      case 'start':
+        startSection(line.type, line.label);
+        inEnvironment = true;
+        break;
+      case 'end':
+        inEnvironment = false;
+        finishSection();
+        break;
+      case 'lyric':
+        if (!current) {
+          startSection('verse', null);
+          isMarked = false;
+        }
+        current!.lines.push(line.text);
+        break;
+      default:
+        break;
+    }
+  });
+  finishSection();
+
+  return sections;
+};
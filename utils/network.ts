@@ -0,0 +1,68 @@
+import { SUPABASE_URL, SUPABASE_ANON_KEY, ConnectivityStatus } from '../constants/Config';
+
+// How long a single reachability check may take before it counts as failed
+const PROBE_TIMEOUT = 5000;
+
+// Responses slower than this mean the connection is usable but poor
+const SLOW_RESPONSE_THRESHOLD = 3000;
+
+export interface SupabaseProbeResult {
+  rest: boolean;
+  auth: boolean;
+  latencyMs: number;
+}
+
+// fetch with a timeout, resolving to whether the request succeeded
+const fetchWithTimeout = async (url: string, init: RequestInit, requireOk: boolean): Promise<boolean> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    return requireOk ? response.ok : true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// Basic internet connectivity
+export const checkBasicConnectivity = (): Promise<boolean> =>
+  fetchWithTimeout('https://www.google.com', {
+    method: 'HEAD',
+    mode: 'no-cors',
+    cache: 'no-cache',
+  }, false);
+
+// Supabase REST endpoint
+export const checkSupabaseRest = (): Promise<boolean> =>
+  fetchWithTimeout(`${SUPABASE_URL}/rest/v1/`, {
+    method: 'HEAD',
+    headers: {
+      'apikey': SUPABASE_ANON_KEY,
+    },
+  }, true);
+
+// Supabase auth endpoint
+export const checkSupabaseAuth = (): Promise<boolean> =>
+  fetchWithTimeout(`${SUPABASE_URL}/auth/v1/health`, {
+    method: 'GET',
+    headers: {
+      'apikey': SUPABASE_ANON_KEY,
+    },
+  }, true);
+
+// Check both Supabase endpoints at once
+export const probeSupabase = async (): Promise<SupabaseProbeResult> => {
+  const startedAt = Date.now();
+  const [rest, auth] = await Promise.all([checkSupabaseRest(), checkSupabaseAuth()]);
+  return { rest, auth, latencyMs: Date.now() - startedAt };
+};
+
+// Turn a probe result into a connectivity status
+export const getConnectivityStatus = (probe: SupabaseProbeResult): ConnectivityStatus => {
+  if (!probe.rest && !probe.auth) return 'offline';
+  if (!probe.rest || !probe.auth || probe.latencyMs > SLOW_RESPONSE_THRESHOLD) return 'degraded';
+  return 'online';
+};
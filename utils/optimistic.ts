@@ -0,0 +1,97 @@
+import { CacheData, Favourite, Folder, OutboxMutation, ServerRow, SongFolder } from '../constants/Config';
+
+// Undoes one optimistic change on top of whatever the cache holds by the time the server answers
+export type Rollback = (cache: CacheData) => Partial<CacheData>;
+
+// Capture what a mutation is about to change so it can be put back if the server rejects it.
+// Call before applying the mutation to the cache.
+export const createRollback = (cache: CacheData, mutation: OutboxMutation, userId: string): Rollback => {
+  switch (mutation.type) {
+    case 'addFavourite':
+    case 'removeFavourite': {
+      const isTarget = (fav: Favourite) => fav.song_id === mutation.songId && fav.user_id === userId;
+      const previous = cache.favourites.filter(isTarget);
+      return current => ({ favourites: [...current.favourites.filter(fav => !isTarget(fav)), ...previous] });
+    }
+    case 'createFolder':
+      return current => ({
+        folders: current.folders.filter(folder => folder.id !== mutation.folderId),
+        folderMemberships: current.folderMemberships.filter(membership => membership.folder_id !== mutation.folderId),
+      });
+    case 'updateFolder': {
+      const previous = cache.folders.find(folder => folder.id === mutation.folderId);
+      if (!previous) return () => ({});
+      return current => ({
+        folders: current.folders.map(folder =>
+          folder.id === previous.id ? { ...folder, name: previous.name, updated_at: previous.updated_at } : folder
+        ),
+      });
+    }
+    case 'deleteFolder': {
+      const previous = cache.folders.find(folder => folder.id === mutation.folderId);
+      if (!previous) return () => ({});
+      const memberships = cache.folderMemberships.filter(membership => membership.folder_id === mutation.folderId);
+      return current => ({
+        folders: [...current.folders.filter(folder => folder.id !== previous.id), previous],
+        folderMemberships: [
+          ...current.folderMemberships.filter(membership => membership.folder_id !== previous.id),
+          ...memberships,
+        ],
+      });
+    }
+    case 'addSongToFolder':
+    case 'removeSongFromFolder': {
+      const isTarget = (membership: SongFolder) =>
+        membership.folder_id === mutation.folderId && membership.song_id === mutation.songId;
+      const previous = cache.folderMemberships.filter(isTarget);
+      return current => ({
+        folderMemberships: [...current.folderMemberships.filter(membership => !isTarget(membership)), ...previous],
+      });
+    }
+  }
+};
+
+// Swap the locally made copy for the row the server returned (real ids, server timestamps)
+export const reconcileWithServerRow = (
+  cache: CacheData,
+  mutation: OutboxMutation,
+  row: ServerRow,
+  userId: string
+): Partial<CacheData> => {
+  switch (mutation.type) {
+    case 'addFavourite': {
+      const favourite = row as Favourite;
+      // Realtime may already have delivered the same row
+      const others = cache.favourites.filter(
+        fav => fav.id !== favourite.id && !(fav.song_id === favourite.song_id && fav.user_id === userId)
+      );
+      return { favourites: [...others, favourite] };
+    }
+    case 'createFolder': {
+      const folder = row as Folder;
+      return {
+        folders: cache.folders
+          .filter(cached => cached.id !== folder.id)
+          .map(cached => (cached.id === mutation.folderId ? folder : cached)),
+        folderMemberships: cache.folderMemberships.map(membership =>
+          membership.folder_id === mutation.folderId ? { ...membership, folder_id: folder.id! } : membership
+        ),
+      };
+    }
+    case 'updateFolder': {
+      const folder = row as Folder;
+      return { folders: cache.folders.map(cached => (cached.id === folder.id ? { ...cached, ...folder } : cached)) };
+    }
+    case 'addSongToFolder': {
+      const membership = row as SongFolder;
+      const others = cache.folderMemberships.filter(
+        cached => cached.id !== membership.id &&
+          !(cached.folder_id === membership.folder_id && cached.song_id === membership.song_id)
+      );
+      return { folderMemberships: [...others, membership] };
+    }
+    default:
+      // Deletes return nothing to reconcile
+      return {};
+  }
+};
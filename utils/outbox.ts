@@ -0,0 +1,203 @@
+import uuid from 'react-native-uuid';
+import {
+  AppError,
+  CacheData,
+  Favourite,
+  Folder,
+  OutboxEntry,
+  OutboxMutation,
+  RepositoryResult,
+  SongFolder,
+  SongSummary,
+} from '../constants/Config';
+import { favouritesRepository } from '../services/favouritesService';
+import { foldersRepository } from '../services/foldersService';
+import { toAppError } from './errors';
+
+export interface OutboxReplayResult {
+  error: AppError | null; // Retryable errors keep the entry queued; others move it to the failed list
+  folder?: Folder; // Server row returned when a queued folder is created
+}
+
+// Folders created offline get a negative id until the server assigns a real one
+export const createTempFolderId = (): number => -Date.now();
+
+export const isTempId = (id?: number): boolean => id !== undefined && id < 0;
+
+export const createOutboxEntry = (mutation: OutboxMutation, userId: string): OutboxEntry => ({
+  ...mutation,
+  id: uuid.v4() as string,
+  userId,
+  createdAt: Date.now(),
+  attempts: 0,
+  lastError: null,
+});
+
+// Apply a mutation to the local cache so the UI reflects it before the server does
+export const applyMutationToCache = (
+  cache: CacheData,
+  mutation: OutboxMutation,
+  userId: string
+): Partial<CacheData> => {
+  const now = new Date().toISOString();
+
+  switch (mutation.type) {
+    case 'addFavourite': {
+      if (cache.favourites.some(fav => fav.song_id === mutation.songId && fav.user_id === userId)) {
+        return {};
+      }
+      const favourite: Favourite = { user_id: userId, song_id: mutation.songId, created_at: now };
+      return { favourites: [...cache.favourites, favourite] };
+    }
+    case 'removeFavourite':
+      return {
+        favourites: cache.favourites.filter(
+          fav => !(fav.song_id === mutation.songId && fav.user_id === userId)
+        ),
+      };
+    case 'createFolder': {
+      // Already applied when an optimistic create falls back to the outbox
+      if (cache.folders.some(folder => folder.id === mutation.folderId)) {
+        return {};
+      }
+      const folder: Folder = {
+        id: mutation.folderId,
+        user_id: userId,
+        name: mutation.name,
+        created_at: now,
+        updated_at: now,
+      };
+      return { folders: [...cache.folders, folder] };
+    }
+    case 'updateFolder':
+      return {
+        folders: cache.folders.map(folder =>
+          folder.id === mutation.folderId ? { ...folder, name: mutation.name, updated_at: now } : folder
+        ),
+      };
+    case 'deleteFolder':
+      // song_folders rows go with the folder (ON DELETE CASCADE)
+      return {
+        folders: cache.folders.filter(folder => folder.id !== mutation.folderId),
+        folderMemberships: cache.folderMemberships.filter(membership => membership.folder_id !== mutation.folderId),
+      };
+    case 'addSongToFolder': {
+      if (cache.folderMemberships.some(
+        membership => membership.folder_id === mutation.folderId && membership.song_id === mutation.songId
+      )) {
+        return {};
+      }
+      const membership: SongFolder = { folder_id: mutation.folderId, song_id: mutation.songId, created_at: now };
+      return { folderMemberships: [...cache.folderMemberships, membership] };
+    }
+    case 'removeSongFromFolder':
+      return {
+        folderMemberships: cache.folderMemberships.filter(
+          membership => !(membership.folder_id === mutation.folderId && membership.song_id === mutation.songId)
+        ),
+      };
+  }
+};
+
+// Re-apply queued and in-flight changes on top of fresh server data so a fetch doesn't hide them
+export const rebaseOnMutations = (
+  cache: CacheData,
+  mutations: OutboxMutation[],
+  userId: string
+): CacheData =>
+  mutations.reduce((rebased, mutation) => ({ ...rebased, ...applyMutationToCache(rebased, mutation, userId) }), cache);
+
+// Add an entry to the outbox, collapsing it against queued work for a folder that never reached the server
+export const appendToOutbox = (outbox: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] => {
+  if (entry.type === 'deleteFolder' && isTempId(entry.folderId)) {
+    return outbox.filter(queued => !('folderId' in queued && queued.folderId === entry.folderId));
+  }
+
+  if (entry.type === 'updateFolder' && isTempId(entry.folderId)) {
+    return outbox.map(queued =>
+      queued.type === 'createFolder' && queued.folderId === entry.folderId
+        ? { ...queued, name: entry.name }
+        : queued
+    );
+  }
+
+  return [...outbox, entry];
+};
+
+// Point queued entries that reference a temporary folder at the id the server assigned
+export const remapFolderId = (outbox: OutboxEntry[], tempId: number, realId: number): OutboxEntry[] =>
+  outbox.map(entry =>
+    'folderId' in entry && entry.folderId === tempId ? { ...entry, folderId: realId } : entry
+  );
+
+// Send one queued mutation to the server
+export const replayMutation = async (entry: OutboxEntry): Promise<OutboxReplayResult> => {
+  try {
+    let result: RepositoryResult<unknown>;
+
+    switch (entry.type) {
+      case 'addFavourite':
+        result = await favouritesRepository.addFavourite(entry.userId, entry.songId);
+        break;
+      case 'removeFavourite':
+        result = await favouritesRepository.removeFavourite(entry.userId, entry.songId);
+        break;
+      case 'createFolder':
+        result = await foldersRepository.createFolder(entry.userId, entry.name);
+        break;
+      case 'updateFolder':
+        result = await foldersRepository.updateFolder(entry.userId, entry.folderId, entry.name);
+        break;
+      case 'deleteFolder':
+        result = await foldersRepository.deleteFolder(entry.userId, entry.folderId);
+        break;
+      case 'addSongToFolder':
+        result = await foldersRepository.addSongToFolder(entry.songId, entry.folderId);
+        break;
+      case 'removeSongFromFolder':
+        result = await foldersRepository.removeSongFromFolder(entry.songId, entry.folderId);
+        break;
+    }
+
+    if (result.error) {
+      const appError = toAppError(result.error, 'Failed to sync change');
+      // Inserting something that already exists means the change is already applied
+      if (appError.category === 'duplicate' && entry.type !== 'createFolder') {
+        return { error: null };
+      }
+      return { error: appError };
+    }
+
+    return {
+      error: null,
+      folder: entry.type === 'createFolder' ? (result.data as Folder) : undefined,
+    };
+  } catch (err) {
+    return { error: toAppError(err, 'Failed to sync change') };
+  }
+};
+
+// Human readable summary of a queued change, used when showing sync problems
+export const describeMutation = (entry: OutboxMutation, songs: SongSummary[], folders: Folder[]): string => {
+  const folderName = (folderId: number) =>
+    `"${folders.find(folder => folder.id === folderId)?.name || 'a folder'}"`;
+  const songTitle = (songId: number) =>
+    `"${songs.find(song => song.id === songId)?.title || `Song ${songId}`}"`;
+
+  switch (entry.type) {
+    case 'addFavourite':
+      return `Add ${songTitle(entry.songId)} to favourites`;
+    case 'removeFavourite':
+      return `Remove ${songTitle(entry.songId)} from favourites`;
+    case 'createFolder':
+      return `Create folder "${entry.name}"`;
+    case 'updateFolder':
+      return `Rename folder to "${entry.name}"`;
+    case 'deleteFolder':
+      return `Delete folder ${folderName(entry.folderId)}`;
+    case 'addSongToFolder':
+      return `Add ${songTitle(entry.songId)} to ${folderName(entry.folderId)}`;
+    case 'removeSongFromFolder':
+      return `Remove ${songTitle(entry.songId)} from ${folderName(entry.folderId)}`;
+  }
+};
@@ -0,0 +1,151 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabaseClient, DATA_SOURCE, CacheData, Favourite, Folder, RealtimeChange, RealtimeStatus, RealtimeTable, SongFolder } from '../constants/Config';
+
+// A source of library change events for one user
+export interface ChangeFeed {
+  subscribe: (
+    userId: string,
+    onChange: (change: RealtimeChange) => void,
+    onStatus: (status: RealtimeStatus) => void
+  ) => () => void;
+}
+
+// Stand-in feed that lets changes be pushed in by hand (dev tools, tests, no hosted project)
+export interface LocalChangeFeed extends ChangeFeed {
+  emit: (change: RealtimeChange) => void;
+}
+
+const LIBRARY_TABLES: RealtimeTable[] = ['favourites', 'folders', 'song_folders'];
+
+// Supabase Realtime feed. Inserts and updates are filtered to the user where the table has a
+// user_id column (song_folders relies on RLS). Deletes can't be filtered by Realtime and only
+// carry the primary key, so they are matched against the local cache by id.
+export const createSupabaseChangeFeed = (): ChangeFeed => ({
+  subscribe: (userId, onChange, onStatus) => {
+    onStatus('connecting');
+
+    const channel = supabaseClient.channel(`library:${userId}`);
+
+    LIBRARY_TABLES.forEach((table) => {
+      const filter = table === 'song_folders' ? undefined : `user_id=eq.${userId}`;
+      const handler = (payload: RealtimePostgresChangesPayload<{ [key: string]: any }>) => {
+        onChange({
+          table,
+          eventType: payload.eventType,
+          new: payload.new,
+          old: payload.old,
+        });
+      };
+
+      channel
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, handler)
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, handler)
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, handler);
+    });
+
+    channel.subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        onStatus('connected');
+      } else {
+        console.log('📡 Realtime channel status:', status);
+        onStatus('disconnected');
+      }
+    });
+
+    return () => {
+      supabaseClient.removeChannel(channel);
+    };
+  },
+});
+
+export const createLocalChangeFeed = (): LocalChangeFeed => {
+  const listeners = new Map<number, { userId: string; onChange: (change: RealtimeChange) => void }>();
+  let nextListenerId = 0;
+
+  return {
+    subscribe: (userId, onChange, onStatus) => {
+      const listenerId = nextListenerId++;
+      listeners.set(listenerId, { userId, onChange });
+      onStatus('connected');
+      return () => {
+        listeners.delete(listenerId);
+      };
+    },
+    emit: (change) => {
+      listeners.forEach(({ userId, onChange }) => {
+        // Mirror the server-side user filter
+        const row = change.eventType === 'DELETE' ? change.old : change.new;
+        if (change.table !== 'song_folders' && row.user_id && row.user_id !== userId) return;
+        onChange(change);
+      });
+    },
+  };
+};
+
+// Shared stand-in feed, used with local data or when EXPO_PUBLIC_REALTIME_MODE=local
+export const localChangeFeed = createLocalChangeFeed();
+
+export const getDefaultChangeFeed = (): ChangeFeed =>
+  DATA_SOURCE === 'local' || process.env.EXPO_PUBLIC_REALTIME_MODE === 'local'
+    ? localChangeFeed
+    : createSupabaseChangeFeed();
+
+// Apply a remote change to the cached library
+export const applyRealtimeChange = (
+  cache: CacheData,
+  change: RealtimeChange,
+  userId: string
+): Partial<CacheData> => {
+  switch (change.table) {
+    case 'favourites': {
+      if (change.eventType === 'DELETE') {
+        return { favourites: cache.favourites.filter(fav => fav.id !== change.old.id) };
+      }
+      const favourite = change.new as Favourite;
+      if (favourite.user_id !== userId) return {};
+      // Replace any optimistic copy of the same favourite with the server row
+      const others = cache.favourites.filter(
+        fav => fav.id !== favourite.id && !(fav.song_id === favourite.song_id && fav.user_id === userId)
+      );
+      return { favourites: [...others, favourite] };
+    }
+    case 'folders': {
+      if (change.eventType === 'DELETE') {
+        return {
+          folders: cache.folders.filter(folder => folder.id !== change.old.id),
+          folderMemberships: cache.folderMemberships.filter(membership => membership.folder_id !== change.old.id),
+        };
+      }
+      const folder = change.new as Folder;
+      if (folder.user_id !== userId) return {};
+      const exists = cache.folders.some(cached => cached.id === folder.id);
+      return {
+        folders: exists
+          ? cache.folders.map(cached => (cached.id === folder.id ? { ...cached, ...folder } : cached))
+          : [...cache.folders, folder],
+      };
+    }
+    case 'song_folders': {
+      if (change.eventType === 'DELETE') {
+        // Deletes may only carry the primary key
+        const removed = change.old as Partial<SongFolder>;
+        return {
+          folderMemberships: cache.folderMemberships.filter(membership =>
+            removed.id !== undefined
+              ? membership.id !== removed.id
+              : !(membership.folder_id === removed.folder_id && membership.song_id === removed.song_id)
+          ),
+        };
+      }
+      const membership = change.new as SongFolder;
+      // Rows aren't filtered by user; only keep ones for folders we have
+      if (!cache.folders.some(folder => folder.id === membership.folder_id)) return {};
+      // Replace any optimistic copy of the same membership with the server row
+      const others = cache.folderMemberships.filter(
+        cached => cached.id !== membership.id &&
+          !(cached.folder_id === membership.folder_id && cached.song_id === membership.song_id)
+      );
+      return { folderMemberships: [...others, membership] };
+    }
+  }
+};
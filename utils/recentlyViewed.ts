@@ -0,0 +1,51 @@
+import { APP_CONFIG } from '../constants/Config';
+import { appStorage } from './storage';
+
+// When each song was last opened, for sorting lists by recently viewed. Kept per account like
+// search history (see utils/searchHistory.ts), trimmed to the most recent APP_CONFIG.recentlyViewedSize.
+
+type ViewedAt = { [songId: number]: string }; // ISO timestamp of the last view
+
+const viewListeners = new Set<(storageKey: string, viewedAt: Map<number, string>) => void>();
+
+export const subscribeToRecentlyViewed = (
+  listener: (storageKey: string, viewedAt: Map<number, string>) => void
+): (() => void) => {
+  viewListeners.add(listener);
+  return () => {
+    viewListeners.delete(listener);
+  };
+};
+
+export const getRecentlyViewed = async (storageKey: string): Promise<Map<number, string>> => {
+  try {
+    const viewedString = await appStorage.getItem(storageKey);
+    const viewed: ViewedAt = viewedString ? JSON.parse(viewedString) : {};
+    // Objects list number keys in numeric order, so put the views back in the order they happened
+    return new Map(
+      Object.entries(viewed)
+        .sort(([, a], [, b]) => a.localeCompare(b))
+        .map(([songId, viewedAt]) => [Number(songId), viewedAt])
+    );
+  } catch (error) {
+    console.error('Error loading recently viewed songs:', error);
+    return new Map();
+  }
+};
+
+export const recordSongView = async (storageKey: string, songId: number): Promise<void> => {
+  const viewedAt = await getRecentlyViewed(storageKey);
+  viewedAt.delete(songId);
+  viewedAt.set(songId, new Date().toISOString());
+
+  // Map order is view order, so the oldest views are first to go
+  const kept = Array.from(viewedAt).slice(-APP_CONFIG.recentlyViewedSize);
+  const updated = new Map(kept);
+  viewListeners.forEach(listener => listener(storageKey, updated));
+
+  try {
+    await appStorage.setItem(storageKey, JSON.stringify(Object.fromEntries(kept)));
+  } catch (error) {
+    console.error('Error saving recently viewed songs:', error);
+  }
+};
@@ -0,0 +1,264 @@
+import { ScriptureReference, SongSummary } from '../constants/Config';
+
+// Bible references: parsing what people type ("Ps 23:1-4", "Psalm 23", "1 Cor 13") into
+// normalized ScriptureReferences, comparing them in canonical book order and matching songs
+// whose passages overlap a reference.
+
+interface BibleBook {
+  name: string; // Canonical name, as stored in songs.scripture_refs
+  chapters: number;
+  abbreviations: string[]; // Without the book number, e.g. "cor" for 1 Corinthians
+  referenceName?: string; // Name used before a chapter when it differs, e.g. "Psalm 23"
+}
+
+// Protestant canon in canonical order
+const BIBLE_BOOKS: BibleBook[] = [
+  { name: 'Genesis', chapters: 50, abbreviations: ['gen', 'gn'] },
+  { name: 'Exodus', chapters: 40, abbreviations: ['ex', 'exod'] },
+  { name: 'Leviticus', chapters: 27, abbreviations: ['lev', 'lv'] },
+  { name: 'Numbers', chapters: 36, abbreviations: ['num', 'nm'] },
+  { name: 'Deuteronomy', chapters: 34, abbreviations: ['deut', 'dt'] },
+  { name: 'Joshua', chapters: 24, abbreviations: ['josh', 'jos'] },
+  { name: 'Judges', chapters: 21, abbreviations: ['judg', 'jdg'] },
+  { name: 'Ruth', chapters: 4, abbreviations: ['ru'] },
+  { name: '1 Samuel', chapters: 31, abbreviations: ['sam', 'sa', 'sm'] },
+  { name: '2 Samuel', chapters: 24, abbreviations: ['sam', 'sa', 'sm'] },
+  { name: '1 Kings', chapters: 22, abbreviations: ['kgs', 'ki'] },
+  { name: '2 Kings', chapters: 25, abbreviations: ['kgs', 'ki'] },
+  { name: '1 Chronicles', chapters: 29, abbreviations: ['chr', 'chron'] },
+  { name: '2 Chronicles', chapters: 36, abbreviations: ['chr', 'chron'] },
+  { name: 'Ezra', chapters: 10, abbreviations: ['ezr'] },
+  { name: 'Nehemiah', chapters: 13, abbreviations: ['neh'] },
+  { name: 'Esther', chapters: 10, abbreviations: ['est', 'esth'] },
+  { name: 'Job', chapters: 42, abbreviations: ['jb'] },
+  { name: 'Psalms', chapters: 150, abbreviations: ['ps', 'psa', 'pss', 'psalm'], referenceName: 'Psalm' },
+  { name: 'Proverbs', chapters: 31, abbreviations: ['prov', 'prv', 'pr'] },
+  { name: 'Ecclesiastes', chapters: 12, abbreviations: ['eccl', 'eccles', 'ecc', 'qoh'] },
+  { name: 'Song of Songs', chapters: 8, abbreviations: ['song', 'sos', 'songofsolomon', 'canticles', 'cant'] },
+  { name: 'Isaiah', chapters: 66, abbreviations: ['isa', 'is'] },
+  { name: 'Jeremiah', chapters: 52, abbreviations: ['jer'] },
+  { name: 'Lamentations', chapters: 5, abbreviations: ['lam'] },
+  { name: 'Ezekiel', chapters: 48, abbreviations: ['ezek', 'ezk'] },
+  { name: 'Daniel', chapters: 12, abbreviations: ['dan', 'dn'] },
+  { name: 'Hosea', chapters: 14, abbreviations: ['hos'] },
+  { name: 'Joel', chapters: 3, abbreviations: ['jl'] },
+  { name: 'Amos', chapters: 9, abbreviations: ['am'] },
+  { name: 'Obadiah', chapters: 1, abbreviations: ['obad', 'ob'] },
+  { name: 'Jonah', chapters: 4, abbreviations: ['jon', 'jnh'] },
+  { name: 'Micah', chapters: 7, abbreviations: ['mic'] },
+  { name: 'Nahum', chapters: 3, abbreviations: ['nah'] },
+  { name: 'Habakkuk', chapters: 3, abbreviations: ['hab'] },
+  { name: 'Zephaniah', chapters: 3, abbreviations: ['zeph', 'zep'] },
+  { name: 'Haggai', chapters: 2, abbreviations: ['hag'] },
+  { name: 'Zechariah', chapters: 14, abbreviations: ['zech', 'zec'] },
+  { name: 'Malachi', chapters: 4, abbreviations: ['mal'] },
+  { name: 'Matthew', chapters: 28, abbreviations: ['matt', 'mt'] },
+  { name: 'Mark', chapters: 16, abbreviations: ['mk', 'mrk'] },
+  { name: 'Luke', chapters: 24, abbreviations: ['lk'] },
+  { name: 'John', chapters: 21, abbreviations: ['jn', 'jhn'] },
+  { name: 'Acts', chapters: 28, abbreviations: ['ac'] },
+  { name: 'Romans', chapters: 16, abbreviations: ['rom', 'rm'] },
+  { name: '1 Corinthians', chapters: 16, abbreviations: ['cor'] },
+  { name: '2 Corinthians', chapters: 13, abbreviations: ['cor'] },
+  { name: 'Galatians', chapters: 6, abbreviations: ['gal'] },
+  { name: 'Ephesians', chapters: 6, abbreviations: ['eph'] },
+  { name: 'Philippians', chapters: 4, abbreviations: ['phil', 'php'] },
+  { name: 'Colossians', chapters: 4, abbreviations: ['col'] },
+  { name: '1 Thessalonians', chapters: 5, abbreviations: ['thess', 'th'] },
+  { name: '2 Thessalonians', chapters: 3, abbreviations: ['thess', 'th'] },
+  { name: '1 Timothy', chapters: 6, abbreviations: ['tim', 'tm'] },
+  { name: '2 Timothy', chapters: 4, abbreviations: ['tim', 'tm'] },
+  { name: 'Titus', chapters: 3, abbreviations: ['tit'] },
+  { name: 'Philemon', chapters: 1, abbreviations: ['philem', 'phm'] },
+  { name: 'Hebrews', chapters: 13, abbreviations: ['heb'] },
+  { name: 'James', chapters: 5, abbreviations: ['jas', 'jm'] },
+  { name: '1 Peter', chapters: 5, abbreviations: ['pet', 'pt'] },
+  { name: '2 Peter', chapters: 3, abbreviations: ['pet', 'pt'] },
+  { name: '1 John', chapters: 5, abbreviations: ['jn', 'jhn'] },
+  { name: '2 John', chapters: 1, abbreviations: ['jn', 'jhn'] },
+  { name: '3 John', chapters: 1, abbreviations: ['jn', 'jhn'] },
+  { name: 'Jude', chapters: 1, abbreviations: ['jde'] },
+  { name: 'Revelation', chapters: 22, abbreviations: ['rev', 'rv', 'revelations'] },
+];
+
+// ===== Book names =====
+
+// Lowercase letters and the book number only: "1 Cor." -> "1cor"
+const toBookKey = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Book numbers people write out: "II Kings", "First John", "1st Peter"
+const BOOK_NUMBER_WORDS: { [word: string]: string } = {
+  i: '1', ii: '2', iii: '3', first: '1', second: '2', third: '3', '1st': '1', '2nd': '2', '3rd': '3',
+};
+
+const BOOK_KEYS = BIBLE_BOOKS.map(book => {
+  const bookNumber = book.name.match(/^\d/)?.[0] || '';
+  return {
+    book,
+    nameKey: toBookKey(book.name),
+    keys: new Set([toBookKey(book.name), ...book.abbreviations.map(abbreviation => bookNumber + abbreviation)]),
+  };
+});
+
+const BOOK_ORDER = new Map(BIBLE_BOOKS.map((book, index) => [book.name, index]));
+
+// Find a book from a full name, a common abbreviation or an unambiguous start of its name
+const findBook = (text: string): BibleBook | null => {
+  const words = text.trim().toLowerCase().split(/\s+/);
+  if (words.length > 1 && BOOK_NUMBER_WORDS[words[0]]) {
+    words[0] = BOOK_NUMBER_WORDS[words[0]];
+  }
+  const key = toBookKey(words.join(''));
+  if (key.replace(/^\d/, '').length < 2) return null;
+
+  const exact = BOOK_KEYS.find(entry => entry.keys.has(key));
+  if (exact) return exact.book;
+
+  const candidates = BOOK_KEYS.filter(entry => entry.nameKey.startsWith(key));
+  return candidates.length === 1 ? candidates[0].book : null;
+};
+
+// ===== Parsing =====
+
+// Book, chapter, optional verse, then optionally a dash and an end chapter and/or verse
+const REFERENCE_PATTERN = /^\s*(.*?[a-z.])\s*(\d+)(?:\s*[:.]\s*(\d+))?(?:\s*[-–—]\s*(\d+)(?:\s*[:.]\s*(\d+))?)?\s*$/i;
+
+// Parse one reference such as "Ps 23:1-4", "Psalm 23", "1 Cor 13", "John 3:16-4:2" or "Jude 3";
+// null when it isn't a reference to a real book and chapter
+export const parseScriptureReference = (text: string): ScriptureReference | null => {
+  const match = text.match(REFERENCE_PATTERN);
+  if (!match) return null;
+
+  const book = findBook(match[1]);
+  if (!book) return null;
+
+  const [first, second, third, fourth] = match.slice(2).map(part => (part === undefined ? null : Number(part)));
+  let reference: ScriptureReference;
+  if (book.chapters === 1 && second === null && fourth === null) {
+    // One-chapter books are cited by verse: "Jude 3-5"
+    reference = { book: book.name, chapter: 1, verse_start: first, chapter_end: 1, verse_end: third ?? first };
+  } else if (second === null) {
+    // Whole chapters: "Psalm 23", "Psalm 120-134", "John 3-4:2"
+    reference = { book: book.name, chapter: first!, verse_start: null, chapter_end: third ?? first!, verse_end: fourth };
+  } else if (fourth !== null) {
+    // Across chapters: "John 3:16-4:2"
+    reference = { book: book.name, chapter: first!, verse_start: second, chapter_end: third!, verse_end: fourth };
+  } else {
+    // Verses in one chapter: "Ps 23:1-4", "John 3:16"
+    reference = { book: book.name, chapter: first!, verse_start: second, chapter_end: first!, verse_end: third ?? second };
+  }
+
+  const isValid = reference.chapter >= 1
+    && reference.chapter_end <= book.chapters
+    && comparePositions(startOf(reference), endOf(reference)) <= 0
+    && (reference.verse_start === null || reference.verse_start >= 1)
+    && (reference.verse_end === null || reference.verse_end >= 1);
+  return isValid ? reference : null;
+};
+
+// Several references separated by semicolons, e.g. "Ps 23; John 10:11"; null unless every part parses
+export const parseScriptureReferences = (text: string): ScriptureReference[] | null => {
+  const parts = text.split(';').filter(part => part.trim());
+  if (parts.length === 0) return null;
+
+  const references = parts.map(parseScriptureReference);
+  return references.every(reference => reference !== null) ? references as ScriptureReference[] : null;
+};
+
+// ===== Formatting =====
+
+// Chapter and verses only, e.g. "23:1-4" or "3:16-4:2"; one-chapter books show just verses
+export const formatScripturePassage = (reference: ScriptureReference): string => {
+  const { chapter, verse_start, chapter_end, verse_end } = reference;
+  const bookChapters = BIBLE_BOOKS[BOOK_ORDER.get(reference.book) ?? -1]?.chapters;
+
+  if (bookChapters === 1 && verse_start !== null) {
+    return verse_end === null || verse_end === verse_start ? `${verse_start}` : `${verse_start}-${verse_end}`;
+  }
+  if (verse_start === null && verse_end === null) {
+    return chapter_end === chapter ? `${chapter}` : `${chapter}-${chapter_end}`;
+  }
+
+  const start = `${chapter}:${verse_start ?? 1}`;
+  if (chapter_end !== chapter) {
+    return verse_end === null ? `${start}-${chapter_end}` : `${start}-${chapter_end}:${verse_end}`;
+  }
+  if (verse_end === null) {
+    return `${start}ff`;
+  }
+  return verse_end === verse_start ? start : `${start}-${verse_end}`;
+};
+
+// Full reference, e.g. "Psalm 23:1-4"
+export const formatScriptureReference = (reference: ScriptureReference): string => {
+  const book = BIBLE_BOOKS[BOOK_ORDER.get(reference.book) ?? -1];
+  const chapterCount = reference.chapter_end - reference.chapter + 1;
+  const name = book?.referenceName && chapterCount === 1 ? book.referenceName : reference.book;
+  return `${name} ${formatScripturePassage(reference)}`;
+};
+
+// ===== Ordering and overlap =====
+
+type Position = [chapter: number, verse: number];
+
+const startOf = (reference: ScriptureReference): Position => [reference.chapter, reference.verse_start ?? 0];
+const endOf = (reference: ScriptureReference): Position => [reference.chapter_end, reference.verse_end ?? Infinity];
+
+const comparePositions = (a: Position, b: Position): number => a[0] - b[0] || a[1] - b[1];
+
+// Canonical book order, then where the passage starts; shorter passages first
+export const compareScriptureReferences = (a: ScriptureReference, b: ScriptureReference): number =>
+  (BOOK_ORDER.get(a.book) ?? Infinity) - (BOOK_ORDER.get(b.book) ?? Infinity)
+  || a.book.localeCompare(b.book)
+  || comparePositions(startOf(a), startOf(b))
+  || comparePositions(endOf(a), endOf(b));
+
+// Whether two passages share at least one verse; a whole chapter overlaps any verse in it
+export const referencesOverlap = (a: ScriptureReference, b: ScriptureReference): boolean =>
+  a.book === b.book
+  && comparePositions(startOf(a), endOf(b)) <= 0
+  && comparePositions(startOf(b), endOf(a)) <= 0;
+
+// ===== Songs =====
+
+// Songs based on a passage overlapping any of the references, in canonical order of the
+// passage that matched
+export const findSongsByScripture = (songs: SongSummary[], references: ScriptureReference[]): SongSummary[] =>
+  songs
+    .map(song => ({
+      song,
+      passage: (song.scripture_refs || [])
+        .filter(songReference => references.some(reference => referencesOverlap(songReference, reference)))
+        .sort(compareScriptureReferences)[0],
+    }))
+    .filter(({ passage }) => passage !== undefined)
+    .sort((a, b) => compareScriptureReferences(a.passage, b.passage) || a.song.song_number - b.song.song_number)
+    .map(({ song }) => song);
+
+export interface ScriptureIndexEntry {
+  reference: ScriptureReference;
+  song: SongSummary;
+}
+
+export interface ScriptureIndexSection {
+  book: string;
+  entries: ScriptureIndexEntry[]; // By reference, then song number
+}
+
+// Every song's references grouped by book in canonical order, like the scripture index of a hymnal
+export const buildScriptureIndex = (songs: SongSummary[]): ScriptureIndexSection[] => {
+  const entries = songs
+    .flatMap(song => (song.scripture_refs || []).map(reference => ({ reference, song })))
+    .sort((a, b) => compareScriptureReferences(a.reference, b.reference) || a.song.song_number - b.song.song_number);
+
+  const sections: ScriptureIndexSection[] = [];
+  entries.forEach(entry => {
+    const current = sections[sections.length - 1];
+    if (current?.book === entry.reference.book) {
+      current.entries.push(entry);
+    } else {
+      sections.push({ book: entry.reference.book, entries: [entry] });
+    }
+  });
+  return sections;
+};
@@ -0,0 +1,60 @@
+import { APP_CONFIG } from '../constants/Config';
+import { appStorage } from './storage';
+
+// Recent searches, newest first. Each account keeps its own list (removed with the rest of its
+// data on sign-out); signed-out searches go in a list shared by the device.
+
+const historyListeners = new Set<(storageKey: string, history: string[]) => void>();
+
+// Every search bar showing the same list updates together
+export const subscribeToSearchHistory = (
+  listener: (storageKey: string, history: string[]) => void
+): (() => void) => {
+  historyListeners.add(listener);
+  return () => {
+    historyListeners.delete(listener);
+  };
+};
+
+export const getSearchHistory = async (storageKey: string): Promise<string[]> => {
+  try {
+    const historyString = await appStorage.getItem(storageKey);
+    const history = historyString ? JSON.parse(historyString) : [];
+    return Array.isArray(history) ? history.filter(entry => typeof entry === 'string') : [];
+  } catch (error) {
+    console.error('Error loading search history:', error);
+    return [];
+  }
+};
+
+const saveSearchHistory = async (storageKey: string, history: string[]): Promise<void> => {
+  historyListeners.forEach(listener => listener(storageKey, history));
+  try {
+    await appStorage.setItem(storageKey, JSON.stringify(history));
+  } catch (error) {
+    console.error('Error saving search history:', error);
+  }
+};
+
+const isSameQuery = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+// Move a query to the top of the list, dropping the oldest once the list is full
+export const addToSearchHistory = async (storageKey: string, query: string): Promise<void> => {
+  const trimmedQuery = query.trim();
+  if (!trimmedQuery) return;
+
+  const history = await getSearchHistory(storageKey);
+  await saveSearchHistory(storageKey, [
+    trimmedQuery,
+    ...history.filter(entry => !isSameQuery(entry, trimmedQuery)),
+  ].slice(0, APP_CONFIG.searchHistorySize));
+};
+
+export const removeFromSearchHistory = async (storageKey: string, query: string): Promise<void> => {
+  const history = await getSearchHistory(storageKey);
+  await saveSearchHistory(storageKey, history.filter(entry => !isSameQuery(entry, query)));
+};
+
+export const clearSearchHistory = async (storageKey: string): Promise<void> => {
+  await saveSearchHistory(storageKey, []);
+};
@@ -0,0 +1,478 @@
+import { SongSummary } from '../constants/Config';
+import { stripChords } from './chordPro';
+import { parseLyricsSections } from './lyricsSections';
+
+// Local full-text search over song titles and lyrics. Songs are split into lowercase tokens
+// (accents removed) and kept in an inverted index, so a search only looks at songs containing
+// the words typed. Title matches outrank first-line matches, which outrank the rest of the lyrics.
+// When nothing matches exactly, titles and first lines are searched again allowing for typos and
+// words spelled the way they sound.
+
+export type SearchField = 'title' | 'first_line' | 'lyrics';
+
+export interface SearchMatch {
+  song: SongSummary;
+  score: number;
+  field: SearchField; // Best field any query word matched in
+  line: string | null; // Lyric line with the most query words, for showing under the title
+  terms: string[]; // Indexed words the query matched, for highlighting
+}
+
+interface Posting {
+  songId: number;
+  field: SearchField;
+  line: number; // Index into the song's lines; -1 for the title
+}
+
+export interface SearchIndex {
+  songs: Map<number, SongSummary>;
+  lines: Map<number, string[]>; // Non-empty lyric lines, or just the first line when lyrics aren't on the device
+  postings: Map<string, Posting[]>;
+  tokens: string[]; // Every indexed token, sorted, for prefix lookups
+  fuzzyTokens: string[]; // Title and first-line tokens, the only ones typos are matched against
+  phoneticKeys: Map<string, string[]>; // Sound-alike key -> title and first-line tokens with it
+}
+
+const FIELD_WEIGHTS: { [field in SearchField]: number } = {
+  title: 100,
+  first_line: 10,
+  lyrics: 1,
+};
+
+// Words typed in full count more than the word still being typed
+const PREFIX_MATCH_FACTOR = 0.5;
+
+// The whole query appearing as typed is worth more than the same words scattered about
+const PHRASE_BONUS = 3;
+
+// Typos allowed in a word by its length; shorter words must be spelled right
+const MAX_EDITS = [
+  { minLength: 7, edits: 2 },
+  { minLength: 4, edits: 1 },
+];
+
+// A word that sounds like the one typed counts as much as one with a single typo in five letters
+const PHONETIC_SIMILARITY = 0.8;
+
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+
+export const normalizeText = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const tokenize = (text: string): string[] => normalizeText(text).match(WORD_PATTERN) || [];
+
+// The words of each lyric line, without chords or section markers, so line 0 is the song's first
+// line as getFirstLine works it out
+const lyricLines = (lyrics: string): string[] =>
+  parseLyricsSections(lyrics)
+    .flatMap(section => section.lines)
+    .map(line => stripChords(line).trim())
+    .filter(line => line.length > 0);
+
+// lyricsById holds lyrics stored on the device; other songs are indexed by title and first line
+export const buildSearchIndex = (songs: SongSummary[], lyricsById: Map<number, string>): SearchIndex => {
+  const index: SearchIndex = {
+    songs: new Map(),
+    lines: new Map(),
+    postings: new Map(),
+    tokens: [],
+    fuzzyTokens: [],
+    phoneticKeys: new Map(),
+  };
+  const fuzzyTokens = new Set<string>();
+
+  const add = (token: string, posting: Posting) => {
+    const postings = index.postings.get(token);
+    if (!postings) {
+      index.postings.set(token, [posting]);
+      return;
+    }
+    // Each token is recorded once per line
+    const last = postings[postings.length - 1];
+    if (last.songId !== posting.songId || last.line !== posting.line) {
+      postings.push(posting);
+    }
+  };
+
+  songs.forEach(song => {
+    const lyrics = lyricsById.get(song.id);
+    // Chords would split words ("Amaz[D]ing") and markers aren't sung, so only the words are indexed
+    const lines = lyrics ? lyricLines(lyrics) : song.first_line ? [song.first_line] : [];
+
+    index.songs.set(song.id, song);
+    index.lines.set(song.id, lines);
+    tokenize(song.title).forEach(token => {
+      add(token, { songId: song.id, field: 'title', line: -1 });
+      fuzzyTokens.add(token);
+    });
+    lines.forEach((line, lineIndex) => {
+      const field: SearchField = lineIndex === 0 ? 'first_line' : 'lyrics';
+      tokenize(line).forEach(token => {
+        add(token, { songId: song.id, field, line: lineIndex });
+        if (field === 'first_line') fuzzyTokens.add(token);
+      });
+    });
+  });
+
+  index.tokens = Array.from(index.postings.keys()).sort();
+  index.fuzzyTokens = Array.from(fuzzyTokens);
+  index.fuzzyTokens.forEach(token => {
+    const key = getPhoneticKey(token);
+    if (!key) return;
+    const tokens = index.phoneticKeys.get(key);
+    if (tokens) tokens.push(token);
+    else index.phoneticKeys.set(key, [token]);
+  });
+  return index;
+};
+
+// Indexed tokens starting with prefix, found by binary search over the sorted token list
+export const findTokensWithPrefix = (index: SearchIndex, prefix: string): string[] => {
+  let low = 0;
+  let high = index.tokens.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (index.tokens[middle] < prefix) low = middle + 1;
+    else high = middle;
+  }
+
+  const matches: string[] = [];
+  for (let i = low; i < index.tokens.length && index.tokens[i].startsWith(prefix); i++) {
+    matches.push(index.tokens[i]);
+  }
+  return matches;
+};
+
+interface Candidate {
+  score: number;
+  field: SearchField;
+  matchedWords: number;
+  lineHits: Map<number, number>; // line -> query words found on it
+}
+
+const betterField = (a: SearchField, b: SearchField): SearchField =>
+  FIELD_WEIGHTS[a] >= FIELD_WEIGHTS[b] ? a : b;
+
+// Songs containing every query word (the last one may be half typed), best first
+export const searchIndex = (index: SearchIndex, query: string): SearchMatch[] => {
+  const queryTokens = Array.from(new Set(tokenize(query)));
+  if (queryTokens.length === 0) return [];
+
+  const candidates = new Map<number, Candidate>();
+
+  queryTokens.forEach((queryToken, position) => {
+    const isLast = position === queryTokens.length - 1;
+    // Best weight this query word reached in each song
+    const best = new Map<number, { weight: number; field: SearchField; lines: Set<number> }>();
+
+    const matchingTokens = isLast ? findTokensWithPrefix(index, queryToken) : [queryToken];
+    matchingTokens.forEach(token => {
+      const factor = token === queryToken ? 1 : PREFIX_MATCH_FACTOR;
+      (index.postings.get(token) || []).forEach(({ songId, field, line }) => {
+        const weight = FIELD_WEIGHTS[field] * factor;
+        const current = best.get(songId);
+        if (!current) {
+          best.set(songId, { weight, field, lines: new Set(line >= 0 ? [line] : []) });
+          return;
+        }
+        if (weight > current.weight) {
+          current.weight = weight;
+          current.field = field;
+        }
+        if (line >= 0) current.lines.add(line);
+      });
+    });
+
+    best.forEach(({ weight, field, lines }, songId) => {
+      let candidate = candidates.get(songId);
+      if (!candidate) {
+        // Songs missing an earlier word can't match every word
+        if (position > 0) return;
+        candidate = { score: 0, field, matchedWords: 0, lineHits: new Map() };
+        candidates.set(songId, candidate);
+      } else if (candidate.matchedWords < position) {
+        return;
+      }
+      candidate.score += weight;
+      candidate.field = betterField(candidate.field, field);
+      candidate.matchedWords++;
+      lines.forEach(line => candidate!.lineHits.set(line, (candidate!.lineHits.get(line) || 0) + 1));
+    });
+  });
+
+  const phrase = tokenize(query).join(' ');
+  const matches: SearchMatch[] = [];
+
+  candidates.forEach((candidate, songId) => {
+    if (candidate.matchedWords < queryTokens.length) return;
+
+    const song = index.songs.get(songId)!;
+    const lines = index.lines.get(songId) || [];
+
+    // The line holding the most query words; earlier lines win ties
+    let bestLine = -1;
+    candidate.lineHits.forEach((hits, line) => {
+      const bestHits = bestLine >= 0 ? candidate.lineHits.get(bestLine)! : 0;
+      if (hits > bestHits || (hits === bestHits && line < bestLine)) bestLine = line;
+    });
+
+    let score = candidate.score;
+    if (tokenize(song.title).join(' ').includes(phrase)) {
+      score += FIELD_WEIGHTS.title * PHRASE_BONUS;
+    } else if (bestLine >= 0 && tokenize(lines[bestLine]).join(' ').includes(phrase)) {
+      score += FIELD_WEIGHTS[bestLine === 0 ? 'first_line' : 'lyrics'] * PHRASE_BONUS;
+    }
+
+    matches.push({
+      song,
+      score,
+      field: candidate.field,
+      line: bestLine >= 0 ? lines[bestLine] : null,
+      terms: queryTokens,
+    });
+  });
+
+  return matches.sort((a, b) => b.score - a.score || a.song.song_number - b.song.song_number);
+};
+
+// ===== Typo-tolerant search =====
+
+// Rough English sound-alike key: spellings that sound the same (grace/grase, phather/father,
+// knight/nite) share a key. Vowels after the first letter are dropped and repeated sounds merged.
+export const getPhoneticKey = (token: string): string => {
+  if (/\d/.test(token)) return '';
+
+  const word = token
+    .replace(/^(kn|gn|pn|wr)/, match => match[1])
+    .replace(/^x/, 's')
+    .replace(/^wh/, 'w')
+    .replace(/mb$/, 'm')
+    .replace(/ph/g, 'f')
+    .replace(/gh(?=[^aeiouy]|$)/g, '')
+    .replace(/dg(?=[eiy])/g, 'j')
+    .replace(/tch/g, 'ch')
+    .replace(/(sh|ch|ti(?=[ao]))/g, 'x')
+    .replace(/th/g, '0')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/ck|c|q/g, 'k')
+    .replace(/g(?=[eiy])/g, 'j')
+    .replace(/z/g, 's')
+    .replace(/v/g, 'f')
+    .replace(/d/g, 't')
+    .replace(/b/g, 'p');
+
+  let key = '';
+  for (let i = 0; i < word.length; i++) {
+    const letter = word[i];
+    if (i > 0 && 'aeiouyhw'.includes(letter)) continue;
+    if (key[key.length - 1] === letter) continue;
+    key += 'aeiouy'.includes(letter) ? 'a' : letter;
+  }
+  return key;
+};
+
+const maxEditsFor = (token: string): number =>
+  MAX_EDITS.find(({ minLength }) => token.length >= minLength)?.edits ?? 0;
+
+// Levenshtein distance, giving up (returning maxDistance + 1) once it must exceed maxDistance
+export const editDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMinimum = Math.min(rowMinimum, current[j]);
+    }
+    if (rowMinimum > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Indexed words close enough to a query word, with how alike they are (1 = identical)
+const findSimilarTokens = (index: SearchIndex, queryToken: string, isLast: boolean): Map<string, number> => {
+  const similar = new Map<string, number>();
+  const consider = (token: string, similarity: number) => {
+    if (similarity > (similar.get(token) || 0)) similar.set(token, similarity);
+  };
+
+  if (index.postings.has(queryToken)) consider(queryToken, 1);
+  if (isLast) {
+    findTokensWithPrefix(index, queryToken).forEach(token => consider(token, PREFIX_MATCH_FACTOR));
+  }
+
+  const maxEdits = maxEditsFor(queryToken);
+  if (maxEdits > 0) {
+    index.fuzzyTokens.forEach(token => {
+      const distance = editDistance(queryToken, token, maxEdits);
+      if (distance <= maxEdits) {
+        consider(token, 1 - distance / Math.max(queryToken.length, token.length));
+      }
+    });
+  }
+
+  const key = getPhoneticKey(queryToken);
+  if (key.length > 1) {
+    (index.phoneticKeys.get(key) || []).forEach(token => consider(token, PHONETIC_SIMILARITY));
+  }
+
+  return similar;
+};
+
+// Songs whose title or first line has a word like each query word, most alike first.
+// Meant for when searchIndex finds nothing; it's slower and only looks at titles and first lines.
+export const fuzzySearchIndex = (index: SearchIndex, query: string): SearchMatch[] => {
+  const queryTokens = Array.from(new Set(tokenize(query)));
+  if (queryTokens.length === 0) return [];
+
+  const candidates = new Map<number, { score: number; field: SearchField; matchedWords: number; terms: string[] }>();
+
+  for (let position = 0; position < queryTokens.length; position++) {
+    const similar = findSimilarTokens(index, queryTokens[position], position === queryTokens.length - 1);
+    if (similar.size === 0) return [];
+
+    // Best match for this query word in each song
+    const best = new Map<number, { weight: number; field: SearchField; term: string }>();
+    similar.forEach((similarity, token) => {
+      (index.postings.get(token) || []).forEach(({ songId, field }) => {
+        if (field === 'lyrics') return;
+        const weight = FIELD_WEIGHTS[field] * similarity;
+        if (weight > (best.get(songId)?.weight || 0)) best.set(songId, { weight, field, term: token });
+      });
+    });
+
+    best.forEach(({ weight, field, term }, songId) => {
+      const candidate = candidates.get(songId);
+      if (!candidate) {
+        if (position === 0) candidates.set(songId, { score: weight, field, matchedWords: 1, terms: [term] });
+        return;
+      }
+      if (candidate.matchedWords < position) return;
+      candidate.score += weight;
+      candidate.field = betterField(candidate.field, field);
+      candidate.matchedWords++;
+      candidate.terms.push(term);
+    });
+  }
+
+  const matches: SearchMatch[] = [];
+  candidates.forEach((candidate, songId) => {
+    if (candidate.matchedWords < queryTokens.length) return;
+    const lines = index.lines.get(songId) || [];
+    matches.push({
+      song: index.songs.get(songId)!,
+      score: candidate.score,
+      field: candidate.field,
+      line: candidate.field === 'first_line' ? lines[0] ?? null : null,
+      terms: candidate.terms,
+    });
+  });
+
+  return matches.sort((a, b) => b.score - a.score || a.song.song_number - b.song.song_number);
+};
+
+// The query with each misspelled word swapped for the closest title or first-line word, if that
+// finds any songs; null when there's nothing better to suggest
+export const suggestQuery = (index: SearchIndex, query: string): string | null => {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return null;
+
+  let changed = false;
+  const corrected = queryTokens.map((queryToken, position) => {
+    const isLast = position === queryTokens.length - 1;
+    if (index.postings.has(queryToken) || (isLast && findTokensWithPrefix(index, queryToken).length > 0)) {
+      return queryToken;
+    }
+
+    // Most alike first, then the word found in the most songs
+    const songCount = (token: string) => index.postings.get(token)?.length || 0;
+    let bestToken: string | null = null;
+    let bestSimilarity = 0;
+    for (const [token, similarity] of findSimilarTokens(index, queryToken, false)) {
+      if (
+        similarity > bestSimilarity ||
+        (similarity === bestSimilarity && bestToken !== null && songCount(token) > songCount(bestToken))
+      ) {
+        bestToken = token;
+        bestSimilarity = similarity;
+      }
+    }
+    if (bestToken === null) return queryToken;
+
+    changed = true;
+    return bestToken;
+  });
+
+  if (!changed) return null;
+  const suggestion = corrected.join(' ');
+  return searchIndex(index, suggestion).length > 0 ? suggestion : null;
+};
+
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+// Split text into plain and highlighted parts for the words of a search query
+export const getHighlightSegments = (text: string, query: string): HighlightSegment[] => {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return [{ text, highlight: false }];
+
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+  for (const word of text.matchAll(WORD_PATTERN)) {
+    const normalized = normalizeText(word[0]);
+    if (!queryTokens.some(token => normalized.startsWith(token))) continue;
+
+    const start = word.index!;
+    if (start > lastIndex) segments.push({ text: text.slice(lastIndex, start), highlight: false });
+    segments.push({ text: word[0], highlight: true });
+    lastIndex = start + word[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex), highlight: false });
+  return segments;
+};
+
+// ===== Song numbers =====
+
+// Songs whose number starts with the digits typed, lowest first
+export const findSongsByNumberPrefix = (songs: SongSummary[], digits: string): SongSummary[] =>
+  songs
+    .filter(song => song.song_number.toString().startsWith(digits))
+    .sort((a, b) => a.song_number - b.song_number);
+
+// ===== Type-ahead =====
+
+// Songs to offer while a query is being typed: numbers starting with the digits typed, or titles
+// and first lines starting with (then containing) the text typed
+export const suggestSongs = (songs: SongSummary[], query: string, limit: number): SongSummary[] => {
+  const trimmedQuery = query.trim();
+  if (!trimmedQuery) return [];
+
+  if (/^\d+$/.test(trimmedQuery)) {
+    return findSongsByNumberPrefix(songs, trimmedQuery).slice(0, limit);
+  }
+
+  const normalizedQuery = normalizeText(trimmedQuery);
+  // Lower is better: title start, a title word, first line start, anywhere in either
+  const rankSong = (song: SongSummary): number => {
+    const title = normalizeText(song.title);
+    const firstLine = normalizeText(song.first_line || '');
+    if (title.startsWith(normalizedQuery)) return 0;
+    if (title.includes(` ${normalizedQuery}`)) return 1;
+    if (firstLine.startsWith(normalizedQuery)) return 2;
+    if (title.includes(normalizedQuery) || firstLine.includes(normalizedQuery)) return 3;
+    return -1;
+  };
+
+  return songs
+    .map(song => ({ song, rank: rankSong(song) }))
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.song.song_number - b.song.song_number)
+    .slice(0, limit)
+    .map(({ song }) => song);
+};
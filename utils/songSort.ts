@@ -0,0 +1,61 @@
+import { ListFilters, SongListId, SongSummary } from '../constants/Config';
+
+// Sorting and filtering for the song lists, driven by the ListFilters saved for each list.
+
+// Folders are setlists, so they start in the order songs were added
+export const DEFAULT_LIST_FILTERS: { [list in SongListId]: ListFilters } = {
+  songs: { sortBy: 'number', sortOrder: 'asc', favouritesOnly: false },
+  favourites: { sortBy: 'number', sortOrder: 'asc', favouritesOnly: false },
+  folder: { sortBy: 'recent', sortOrder: 'asc', favouritesOnly: false },
+};
+
+// Order each sort starts in when it's picked: recent means newest first
+export const DEFAULT_SORT_ORDER: { [sortBy in ListFilters['sortBy']]: ListFilters['sortOrder'] } = {
+  number: 'asc',
+  title: 'asc',
+  recent: 'desc',
+};
+
+export const filterSongs = (
+  songs: SongSummary[],
+  filters: ListFilters,
+  favouriteIds: Set<number>
+): SongSummary[] => (filters.favouritesOnly ? songs.filter(song => favouriteIds.has(song.id)) : songs);
+
+// recentAt holds when each song was viewed or added; songs without one always go last, by number
+export const sortSongs = (
+  songs: SongSummary[],
+  filters: ListFilters,
+  recentAt: Map<number, string>
+): SongSummary[] => {
+  const direction = filters.sortOrder === 'asc' ? 1 : -1;
+  const byNumber = (a: SongSummary, b: SongSummary) => a.song_number - b.song_number;
+
+  return [...songs].sort((a, b) => {
+    switch (filters.sortBy) {
+      case 'title':
+        return direction * a.title.localeCompare(b.title) || byNumber(a, b);
+      case 'recent': {
+        const aRecent = recentAt.get(a.id);
+        const bRecent = recentAt.get(b.id);
+        if (!aRecent || !bRecent) {
+          return aRecent ? -1 : bRecent ? 1 : byNumber(a, b);
+        }
+        return direction * aRecent.localeCompare(bRecent) || byNumber(a, b);
+      }
+      default:
+        return direction * byNumber(a, b);
+    }
+  });
+};
+
+// Short description of a list's order, e.g. "Title, Z-A"
+export const describeListFilters = (filters: ListFilters, recentLabel: string): string => {
+  const descending = filters.sortOrder === 'desc';
+  const order = {
+    number: descending ? 'Number, high to low' : 'Number, low to high',
+    title: descending ? 'Title, Z-A' : 'Title, A-Z',
+    recent: descending ? `${recentLabel}, newest first` : `${recentLabel}, oldest first`,
+  }[filters.sortBy];
+  return filters.favouritesOnly ? `${order} · Favourites only` : order;
+};
@@ -0,0 +1,38 @@
+import { SongSummary, SongTombstone, Favourite, SongFolder } from '../constants/Config';
+
+// Server timestamps share one ISO-like format, so the later one also sorts last as a string
+export const latestTimestamp = (...timestamps: (string | null | undefined)[]): string | null =>
+  timestamps.reduce<string | null>(
+    (latest, timestamp) => (timestamp && (!latest || timestamp > latest) ? timestamp : latest),
+    null
+  );
+
+// Watermark for a freshly downloaded list of songs
+export const getSongsWatermark = (songs: SongSummary[]): string | null =>
+  latestTimestamp(...songs.map(song => song.updated_at));
+
+// Merge changed songs and deletions into the cached catalog, keeping it ordered by number
+export const mergeSongChanges = (
+  cachedSongs: SongSummary[],
+  changedSongs: SongSummary[],
+  tombstones: SongTombstone[]
+): SongSummary[] => {
+  const songsById = new Map(cachedSongs.map(song => [song.id, song]));
+
+  changedSongs.forEach(song => songsById.set(song.id, song));
+  tombstones.forEach(tombstone => songsById.delete(tombstone.song_id));
+
+  return Array.from(songsById.values()).sort((a, b) => a.song_number - b.song_number);
+};
+
+// Drop cached favourites that point at songs which no longer exist
+export const pruneDeletedFavourites = (favourites: Favourite[], tombstones: SongTombstone[]): Favourite[] => {
+  const deletedIds = new Set(tombstones.map(tombstone => tombstone.song_id));
+  return favourites.filter(favourite => !deletedIds.has(favourite.song_id));
+};
+
+// Drop cached folder memberships for songs which no longer exist
+export const pruneDeletedMemberships = (memberships: SongFolder[], tombstones: SongTombstone[]): SongFolder[] => {
+  const deletedIds = new Set(tombstones.map(tombstone => tombstone.song_id));
+  return memberships.filter(membership => !deletedIds.has(membership.song_id));
+};
@@ -0,0 +1,46 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Key-value storage used for everything the app keeps on the device
+export interface KeyValueStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+  multiSet: (keyValuePairs: [string, string][]) => Promise<void>;
+  multiRemove: (keys: string[]) => Promise<void>;
+}
+
+// On-device storage (AsyncStorage; localStorage on web)
+export const deviceStorage: KeyValueStorage = {
+  getItem: (key) => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: (key) => AsyncStorage.removeItem(key),
+  multiSet: async (keyValuePairs) => {
+    await AsyncStorage.multiSet(keyValuePairs);
+  },
+  multiRemove: (keys) => AsyncStorage.multiRemove(keys),
+};
+
+// Storage that only lives as long as the JS runtime (automated tests, throwaway demos)
+export const createMemoryStorage = (initialData: { [key: string]: string } = {}): KeyValueStorage => {
+  const data = new Map(Object.entries(initialData));
+
+  return {
+    getItem: async (key) => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: async (key) => {
+      data.delete(key);
+    },
+    multiSet: async (keyValuePairs) => {
+      keyValuePairs.forEach(([key, value]) => data.set(key, value));
+    },
+    multiRemove: async (keys) => {
+      keys.forEach(key => data.delete(key));
+    },
+  };
+};
+
+// Storage used by the app; EXPO_PUBLIC_STORAGE=memory keeps nothing between launches
+export const appStorage: KeyValueStorage =
+  process.env.EXPO_PUBLIC_STORAGE === 'memory' ? createMemoryStorage() : deviceStorage;
@@ -0,0 +1,34 @@
+import { SongSummary, Topic } from '../constants/Config';
+
+// Grouping and filtering songs by the curated topics in database/topics.sql.
+
+export interface TopicSection {
+  topic: Topic;
+  songs: SongSummary[]; // By song number
+}
+
+// Topical index order: the curated sort_order, then name for topics sharing a position
+export const sortTopics = (topics: Topic[]): Topic[] =>
+  [...topics].sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+
+export const filterSongsByTopic = (songs: SongSummary[], topicId: number | null): SongSummary[] =>
+  (topicId === null ? songs : songs.filter(song => song.topic_ids?.includes(topicId)));
+
+// Topics that have at least one song, each with its songs; a song appears under every topic it has
+export const groupSongsByTopic = (songs: SongSummary[], topics: Topic[]): TopicSection[] => {
+  const songsByTopic = new Map<number, SongSummary[]>();
+  songs.forEach(song => {
+    song.topic_ids?.forEach(topicId => {
+      const topicSongs = songsByTopic.get(topicId) || [];
+      topicSongs.push(song);
+      songsByTopic.set(topicId, topicSongs);
+    });
+  });
+
+  return sortTopics(topics)
+    .filter(topic => songsByTopic.has(topic.id))
+    .map(topic => ({
+      topic,
+      songs: songsByTopic.get(topic.id)!.sort((a, b) => a.song_number - b.song_number),
+    }));
+};